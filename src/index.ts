@@ -3,9 +3,15 @@ export * from './zen-colour.js'
 export * from './zen-controller.js'
 export * from './zen-errors.js'
 export * from './zen-events.js'
+export * from './zen-event-stream.js'
 export * from './zen-instance.js'
 export * from './zen-scene.js'
+export * from './zen-profile.js'
 export * from './zen-protocol.js'
 export * from './zen-const.js'
 export * from './zen-gear.js'
 export * from './dali-arc-levels.js'
+export * from './zen-recording.js'
+export * from './zen-transport.js'
+export * from './zen-codec.js'
+export * from './zen-rtt.js'
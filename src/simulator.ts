@@ -0,0 +1 @@
+export * from './zen-simulator.js'
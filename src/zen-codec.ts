@@ -0,0 +1,230 @@
+import { CMD } from './zen-commands.js'
+import { ZenColour } from './zen-colour.js'
+import { ZenConst } from './zen-const.js'
+import { ZenFrameError } from './zen-errors.js'
+
+/** The magic bytes at the start of an event frame */
+const EVENT_MAGIC = [0x5a, 0x43]
+
+/** Commands whose requests are dynamic frames */
+const DYNAMIC_COMMANDS: number[] = [CMD.SET_TPI_EVENT_UNICAST_ADDRESS]
+
+/** Commands whose requests are colour frames */
+const COLOUR_COMMANDS: number[] = [CMD.DALI_COLOUR]
+
+/** A request with an address and three data bytes */
+export interface ZenBasicRequestFrame {
+	type: 'basic'
+	seq: number
+	command: number
+	address: number
+	data: [number, number, number]
+}
+
+/** A request with a length-prefixed payload */
+export interface ZenDynamicRequestFrame {
+	type: 'dynamic'
+	seq: number
+	command: number
+	data: Buffer
+}
+
+/** A request to set a colour, and optionally a level, on an address */
+export interface ZenColourRequestFrame {
+	type: 'colour'
+	seq: number
+	command: number
+	address: number
+	/** The arc level, or 255 to leave the level unchanged */
+	level: number
+	colour: ZenColour
+}
+
+export type ZenRequestFrame = ZenBasicRequestFrame | ZenDynamicRequestFrame | ZenColourRequestFrame
+
+export interface ZenResponseFrame {
+	/** See `ZenResponseCode` */
+	responseCode: number
+	seq: number
+	data: Buffer
+}
+
+export interface ZenEventFrame {
+	/** The controller's MAC address, e.g. `5a:43:00:00:a0:01` */
+	macAddress: string
+	target: number
+	/** See `ZenEventType` */
+	eventCode: number
+	payload: Buffer
+}
+
+/** The XOR checksum used by every frame */
+export function checksum(bytes: Buffer | number[]): number {
+	let sum = 0
+	for (const byte of bytes) {
+		sum ^= byte
+	}
+	return sum & 0xff
+}
+
+function checkByte(name: string, value: number): void {
+	if (!Number.isInteger(value) || value < 0 || value > 0xff) {
+		throw new ZenFrameError('invalid-field', `Invalid ${name}: ${value}`)
+	}
+}
+
+function checkLength(name: string, length: number): void {
+	if (length > 0xff) {
+		throw new ZenFrameError('invalid-field', `Invalid ${name} length: ${length}`)
+	}
+}
+
+function withChecksum(body: Buffer): Buffer {
+	return Buffer.concat([body, Buffer.of(checksum(body))])
+}
+
+function verifyChecksum(packet: Buffer): void {
+	const expected = checksum(packet.subarray(0, packet.length - 1))
+	const received = packet[packet.length - 1]
+	if (received !== expected) {
+		throw new ZenFrameError('invalid-checksum', `Invalid checksum: expected ${expected} received ${received}`)
+	}
+}
+
+/** Encode a request from its raw data bytes. Use `encodeRequestFrame` to encode a typed frame. */
+export function encodeRequestPacket(seq: number, command: number, data: number[] | Buffer): Buffer {
+	checkByte('sequence number', seq)
+	checkByte('command', command)
+	return withChecksum(Buffer.from([ZenConst.MAGIC_BYTE, seq, command, ...data]))
+}
+
+export function encodeRequestFrame(frame: ZenRequestFrame): Buffer {
+	let data: number[]
+	switch (frame.type) {
+	case 'basic':
+		checkByte('address', frame.address)
+		frame.data.forEach(byte => checkByte('data byte', byte))
+		data = [frame.address, ...frame.data]
+		break
+	case 'dynamic':
+		checkLength('data', frame.data.length)
+		data = [frame.data.length, ...frame.data]
+		break
+	case 'colour':
+		checkByte('address', frame.address)
+		checkByte('level', frame.level)
+		data = [frame.address, frame.level, ...frame.colour.toBytes()]
+		break
+	}
+	return encodeRequestPacket(frame.seq, frame.command, data)
+}
+
+export function decodeRequestFrame(packet: Buffer): ZenRequestFrame {
+	// magic + seq + command + checksum
+	if (packet.length < 4) {
+		throw new ZenFrameError('too-short', `Request frame too short: ${packet.length} bytes`)
+	}
+	if (packet[0] !== ZenConst.MAGIC_BYTE) {
+		throw new ZenFrameError('invalid-magic', `Invalid magic byte: ${packet[0].toString(16)}`)
+	}
+	verifyChecksum(packet)
+
+	const seq = packet[1]
+	const command = packet[2]
+	const data = packet.subarray(3, packet.length - 1)
+
+	if (DYNAMIC_COMMANDS.includes(command)) {
+		if (data.length < 1 || data[0] !== data.length - 1) {
+			throw new ZenFrameError('length-mismatch', `Length mismatch: expected ${data[0]} data bytes received ${data.length - 1}`)
+		}
+		return { type: 'dynamic', seq, command, data: Buffer.from(data.subarray(1)) }
+	} else if (COLOUR_COMMANDS.includes(command)) {
+		// address + level + colour
+		if (data.length !== 9) {
+			throw new ZenFrameError('length-mismatch', `Length mismatch: expected 9 data bytes received ${data.length}`)
+		}
+		let colour: ZenColour
+		try {
+			colour = ZenColour.fromBytes(data.subarray(2))
+		} catch (error) {
+			throw new ZenFrameError('invalid-colour', `Invalid colour: ${error instanceof Error ? error.message : error}`)
+		}
+		return { type: 'colour', seq, command, address: data[0], level: data[1], colour }
+	} else {
+		if (data.length !== 4) {
+			throw new ZenFrameError('length-mismatch', `Length mismatch: expected 4 data bytes received ${data.length}`)
+		}
+		return { type: 'basic', seq, command, address: data[0], data: [data[1], data[2], data[3]] }
+	}
+}
+
+export function encodeResponseFrame(frame: ZenResponseFrame): Buffer {
+	checkByte('response code', frame.responseCode)
+	checkByte('sequence number', frame.seq)
+	checkLength('data', frame.data.length)
+	return withChecksum(Buffer.from([frame.responseCode, frame.seq, frame.data.length, ...frame.data]))
+}
+
+export function decodeResponseFrame(packet: Buffer): ZenResponseFrame {
+	// response code + seq + length + checksum
+	if (packet.length < 4) {
+		throw new ZenFrameError('too-short', `Response frame too short: ${packet.length} bytes`)
+	}
+	verifyChecksum(packet)
+
+	const dataLength = packet[2]
+	const expectedLength = 4 + dataLength
+	if (packet.length !== expectedLength) {
+		throw new ZenFrameError('length-mismatch', `Length mismatch: expected ${expectedLength} received ${packet.length}`)
+	}
+	return { responseCode: packet[0], seq: packet[1], data: Buffer.from(packet.subarray(3, packet.length - 1)) }
+}
+
+export function encodeEventFrame(frame: ZenEventFrame): Buffer {
+	const mac = frame.macAddress.replaceAll(':', '')
+	if (!/^[0-9a-fA-F]{12}$/.test(mac)) {
+		throw new ZenFrameError('invalid-field', `Invalid MAC address: ${frame.macAddress}`)
+	}
+	if (!Number.isInteger(frame.target) || frame.target < 0 || frame.target > 0xffff) {
+		throw new ZenFrameError('invalid-field', `Invalid target: ${frame.target}`)
+	}
+	checkByte('event code', frame.eventCode)
+	checkLength('payload', frame.payload.length)
+	return withChecksum(Buffer.from([...EVENT_MAGIC, ...Buffer.from(mac, 'hex'), frame.target >> 8, frame.target & 0xff, frame.eventCode, frame.payload.length, ...frame.payload]))
+}
+
+export interface ZenDecodeEventFrameOptions {
+	/**
+	 * Called instead of throwing when the payload length byte doesn't match the length of the payload, in which case the
+	 * payload is decoded as received
+	 */
+	onLengthMismatch?: (error: ZenFrameError) => void
+}
+
+export function decodeEventFrame(packet: Buffer, options: ZenDecodeEventFrameOptions = {}): ZenEventFrame {
+	// magic + MAC + target + event code + payload length + checksum
+	if (packet.length < 13) {
+		throw new ZenFrameError('too-short', `Event frame too short: ${packet.length} bytes`)
+	}
+	if (packet[0] !== EVENT_MAGIC[0] || packet[1] !== EVENT_MAGIC[1]) {
+		throw new ZenFrameError('invalid-magic', `Invalid magic bytes ${packet[0].toString(16)}${packet[1].toString(16)}`)
+	}
+	verifyChecksum(packet)
+
+	const payloadLength = packet[11]
+	const payload = packet.subarray(12, packet.length - 1)
+	if (payloadLength !== payload.length) {
+		const error = new ZenFrameError('length-mismatch', `Length mismatch: expected ${payloadLength} payload bytes received ${payload.length}`)
+		if (!options.onLengthMismatch) {
+			throw error
+		}
+		options.onLengthMismatch(error)
+	}
+
+	return {
+		macAddress: [...packet.subarray(2, 8)].map(b => b.toString(16).padStart(2, '0')).join(':'),
+		target: packet[8] << 8 | packet[9],
+		eventCode: packet[10],
+		payload: Buffer.from(payload),
+	}
+}
@@ -1,4 +1,5 @@
 import { ZenConst } from './zen-const.js'
+import { ZenColourUnsupportedError } from './zen-errors.js'
 
 export enum ZenColourType {
 	XY = 0x10,
@@ -29,6 +30,36 @@ export interface ZenColourRGBWAF {
 
 export type ZenColourOptions = ZenColourXY | ZenColourTC | ZenColourRGBWAF
 
+/** The colour capabilities of a DALI device */
+export interface ZenColourFeatures {
+	/** Supports CIE 1931 XY coordinates */
+	supportsXy: boolean
+	/** Supports tunable white colour temperature */
+	supportsTunable: boolean
+	/** Number of primaries (0-7) */
+	primaryCount: number
+	/** Number of RGBWAF channels (0-7) */
+	rgbwafChannels: number
+}
+
+/** The colour temperature limits of a DALI device in Kelvin */
+export interface ZenColourTempLimits {
+	physicalWarmest: number
+	physicalCoolest: number
+	/** The configured warmest limit */
+	softWarmest: number
+	/** The configured coolest limit */
+	softCoolest: number
+	step: number
+}
+
+/** The colour capabilities of a DALI target, used to adapt colours to what the target supports */
+export interface ZenColourCapabilities {
+	features: ZenColourFeatures
+	/** The colour temperature limits, or `null` if not known or not supported */
+	tempLimits: ZenColourTempLimits | null
+}
+
 // ZenColour
 export class ZenColour {
 	type: ZenColourType
@@ -356,3 +387,194 @@ export function rgbToHsv(r: number, g: number, b: number): { h: number; s: numbe
 
 	return { h, s, v }
 }
+
+/** The maximum saturation of an RGB colour that can be converted to a colour temperature */
+const MAX_WHITE_SATURATION = 0.2
+
+/**
+ * Adapt a colour to the capabilities of a DALI target. Colour temperatures are clamped to the soft limits and rounded
+ * to the step, and colours are converted between XY, TC and RGBWAF if the target doesn't support the colour's type.
+ * @throws ZenColourUnsupportedError if the colour can't be shown by the target
+ */
+export function adaptColour(colour: ZenColour, capabilities: ZenColourCapabilities): ZenColour {
+	const { features, tempLimits } = capabilities
+	const supportsRgb = features.rgbwafChannels >= 3
+
+	switch (colour.type) {
+	case ZenColourType.TC: {
+		if (colour.kelvin === undefined) {
+			return colour
+		}
+		if (features.supportsTunable) {
+			return new ZenColour({ type: ZenColourType.TC, kelvin: clampKelvin(colour.kelvin, tempLimits) })
+		}
+		const { x, y } = kelvinToXy(colour.kelvin)
+		if (features.supportsXy) {
+			return xyColour(x, y)
+		} else if (supportsRgb) {
+			return rgbwafColour(xyToRgb(x, y), features.rgbwafChannels)
+		}
+		break
+	}
+	case ZenColourType.XY: {
+		if (features.supportsXy) {
+			return colour
+		}
+		const x = (colour.x ?? 0) / 65535
+		const y = (colour.y ?? 0) / 65535
+		if (supportsRgb) {
+			return rgbwafColour(xyToRgb(x, y), features.rgbwafChannels)
+		} else if (features.supportsTunable) {
+			return new ZenColour({ type: ZenColourType.TC, kelvin: clampKelvin(xyToKelvin(x, y), tempLimits) })
+		}
+		break
+	}
+	case ZenColourType.RGBWAF: {
+		if (supportsRgb) {
+			return colour
+		}
+		const w = (colour.w ?? 0) / 255
+		const r = Math.min(1, (colour.r ?? 0) / 255 + w)
+		const g = Math.min(1, (colour.g ?? 0) / 255 + w)
+		const b = Math.min(1, (colour.b ?? 0) / 255 + w)
+		if (r === 0 && g === 0 && b === 0) {
+			break
+		}
+		const { x, y } = rgbToXy(r, g, b)
+		if (features.supportsXy) {
+			return xyColour(x, y)
+		} else if (features.supportsTunable && rgbToHsv(r, g, b).s <= MAX_WHITE_SATURATION) {
+			/* Only colours close to white can be represented as a colour temperature */
+			return new ZenColour({ type: ZenColourType.TC, kelvin: clampKelvin(xyToKelvin(x, y), tempLimits) })
+		}
+		break
+	}
+	}
+
+	throw new ZenColourUnsupportedError(`Target doesn't support ${colour}`)
+}
+
+function clampKelvin(kelvin: number, limits: ZenColourTempLimits | null): number {
+	if (!limits) {
+		return Math.round(kelvin)
+	}
+
+	const warmest = limits.softWarmest || limits.physicalWarmest
+	const coolest = limits.softCoolest || limits.physicalCoolest
+	if (limits.step > 0) {
+		kelvin = warmest + Math.round((kelvin - warmest) / limits.step) * limits.step
+	}
+	return Math.round(Math.max(warmest, Math.min(coolest, kelvin)))
+}
+
+function xyColour(x: number, y: number): ZenColour {
+	const clamp = (n: number) => Math.max(0, Math.min(65535, Math.round(n * 65535)))
+	return new ZenColour({ type: ZenColourType.XY, x: clamp(x), y: clamp(y) })
+}
+
+function rgbwafColour(rgb: { r: number; g: number; b: number }, channels: number): ZenColour {
+	let { r, g, b } = rgb
+	let w = 0
+	if (channels >= 4) {
+		/* Use the white channel for the common component */
+		w = Math.min(r, g, b)
+		r -= w
+		g -= w
+		b -= w
+	}
+	const byte = (n: number) => Math.round(Math.max(0, Math.min(1, n)) * 255)
+	return new ZenColour({ type: ZenColourType.RGBWAF, r: byte(r), g: byte(g), b: byte(b), w: byte(w), a: 0, f: 0 })
+}
+
+/**
+ * Convert a colour temperature to CIE 1931 xy chromaticity coordinates.
+ * @param kelvin colour temperature, clamped to between 1667 and 25000
+ * @returns x and y between 0 and 1
+ */
+export function kelvinToXy(kelvin: number): { x: number; y: number } {
+	const t = Math.max(1667, Math.min(25000, kelvin))
+
+	/* Kim et al. cubic spline approximation of the Planckian locus */
+	let x: number
+	if (t <= 4000) {
+		x = -0.2661239e9 / t ** 3 - 0.2343589e6 / t ** 2 + 0.8776956e3 / t + 0.179910
+	} else {
+		x = -3.0258469e9 / t ** 3 + 2.1070379e6 / t ** 2 + 0.2226347e3 / t + 0.240390
+	}
+
+	let y: number
+	if (t <= 2222) {
+		y = -1.1063814 * x ** 3 - 1.34811020 * x ** 2 + 2.18555832 * x - 0.20219683
+	} else if (t <= 4000) {
+		y = -0.9549476 * x ** 3 - 1.37418593 * x ** 2 + 2.09137015 * x - 0.16748867
+	} else {
+		y = 3.0817580 * x ** 3 - 5.87338670 * x ** 2 + 3.75112997 * x - 0.37001483
+	}
+
+	return { x, y }
+}
+
+/**
+ * Convert CIE 1931 xy chromaticity coordinates to the nearest colour temperature.
+ * @param x between 0 and 1
+ * @param y between 0 and 1
+ * @returns colour temperature in Kelvin
+ */
+export function xyToKelvin(x: number, y: number): number {
+	/* McCamy's approximation */
+	const n = (x - 0.3320) / (0.1858 - y)
+	return 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33
+}
+
+/**
+ * Convert sRGB to CIE 1931 xy chromaticity coordinates.
+ * @param r red in range 0 to 1
+ * @param g green in range 0 to 1
+ * @param b blue in range 0 to 1
+ * @returns x and y between 0 and 1
+ */
+export function rgbToXy(r: number, g: number, b: number): { x: number; y: number } {
+	const linear = (c: number) => c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+	const [rl, gl, bl] = [linear(r), linear(g), linear(b)]
+
+	const X = 0.4124 * rl + 0.3576 * gl + 0.1805 * bl
+	const Y = 0.2126 * rl + 0.7152 * gl + 0.0722 * bl
+	const Z = 0.0193 * rl + 0.1192 * gl + 0.9505 * bl
+	const sum = X + Y + Z
+	if (sum === 0) {
+		return { x: 0, y: 0 }
+	}
+	return { x: X / sum, y: Y / sum }
+}
+
+/**
+ * Convert CIE 1931 xy chromaticity coordinates to sRGB at full brightness.
+ * @param x between 0 and 1
+ * @param y between 0 and 1
+ * @returns r, g, b between 0 and 1
+ */
+export function xyToRgb(x: number, y: number): { r: number; g: number; b: number } {
+	if (y === 0) {
+		return { r: 0, g: 0, b: 0 }
+	}
+
+	/* Convert xyY to XYZ */
+	const Y = 1.0
+	const X = (x * Y) / y
+	const Z = ((1 - x - y) * Y) / y
+
+	/* Convert XYZ to linear RGB, normalised so the brightest channel is 1 */
+	const rgb = [
+		3.2406 * X - 1.5372 * Y - 0.4986 * Z,
+		-0.9689 * X + 1.8758 * Y + 0.0415 * Z,
+		0.0557 * X - 0.2040 * Y + 1.0570 * Z,
+	].map(c => Math.max(0, c))
+	const max = Math.max(...rgb)
+
+	/* Apply gamma correction (linear RGB to sRGB) */
+	const [r, g, b] = rgb.map(c => {
+		c = max > 0 ? c / max : 0
+		return c <= 0.0031308 ? 12.92 * c : 1.055 * (c ** (1 / 2.4)) - 0.055
+	})
+	return { r, g, b }
+}
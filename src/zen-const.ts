@@ -2,8 +2,15 @@ export const ZenConst = {
 	// UDP protocol
 	MAGIC_BYTE: 0x04,
 	RESPONSE_TIMEOUT: 1000, // In rare circumstances 0.5 seconds can be too short. 1 second is sufficient. Any longer is a cure worse than the disease
+	MAX_RESPONSE_TIMEOUT: 5000, // ms. Upper bound for timeouts derived from measured round-trip times
+	RETRY_BACKOFF_BASE: 100, // ms. Doubles with each retry
+	RETRY_BACKOFF_MAX: 2000,
+	CONTROLLER_OFFLINE_FAILURES: 3, // Consecutive failed requests before a controller is offline
+	CIRCUIT_BREAKER_FAILURES: 3, // Consecutive failed requests before the circuit breaker fails requests fast
+	CIRCUIT_BREAKER_PROBE_INTERVAL: 10000, // ms. Time between requests let through to an unavailable controller
 	DEFAULT_MAX_REQUESTS_PER_CONTROLLER: 8,
 	DEFAULT_MAX_RETRIES: 5,
+	REQUEST_STARVATION_TIME: 5000, // ms. Waiting requests of any priority are sent after this long
 
 	// DALI limits
 	MAX_ECG: 64, // 0-63
@@ -12,9 +19,11 @@ export const ZenConst = {
 	MAX_GROUP: 16, // 0-15
 	MAX_SCENE: 12, // 0-11
 	MAX_SYSVAR: 148, // 0-147
+	MAX_EVENT_FILTERS: 64,
 	MAX_LEVEL: 254, // 255 is mask value (i.e. no change)
 	MIN_KELVIN: 1000,
 	MAX_KELVIN: 20000,
+	DAPC_SEQUENCE_TIME: 200, // ms. A DAPC sequence ends 250ms after its last level, so allow a margin
 
 	// Multicast
 	MULTICAST_GROUP: '239.255.90.67',
@@ -23,6 +32,9 @@ export const ZenConst = {
 	// Unicast
 	DEFAULT_UNICAST_PORT: 5108,
 
+	// Events
+	EVENT_DEDUPLICATION_WINDOW: 250, // ms. Duplicates from multicast and unicast delivery arrive within a few ms of each other
+
 	// Cache
 	CACHE_TIMEOUT: 3600,
 } as const
@@ -13,3 +13,20 @@ export class ZenController {
 		this.macAddress = options.macAddress
 	}
 }
+
+/**
+ * Whether a controller can be reached. `degraded` means recent requests have failed, and `offline` means several
+ * consecutive requests have failed. Any response or event puts the controller back `online`.
+ */
+export type ZenControllerState = 'unknown' | 'online' | 'degraded' | 'offline'
+
+export interface ZenControllerInfo {
+	/** The controller's firmware version, e.g. `2.1.45` */
+	version: string
+	label: string | null
+	fittingNumber: string | null
+	/** Whether the DALI bus is ready, `false` if it has a fault */
+	daliReady: boolean
+	/** Whether the controller has finished its startup sequence */
+	startupComplete: boolean
+}
@@ -28,6 +28,71 @@ export class ZenResponseError extends ZenError {
 	}
 }
 
+/**
+ * Raised without sending a request when a controller's circuit breaker is open after consecutive failed requests
+ */
+export class ZenControllerUnavailableError extends ZenError {
+	constructor(message?: string) {
+		super(message)
+		this.name = 'ZenControllerUnavailableError'
+	}
+}
+
+/**
+ * Raised when using a `ZenProtocol` after it has been closed, or for requests still waiting when it closes
+ */
+export class ZenClosedError extends ZenError {
+	constructor(message?: string) {
+		super(message)
+		this.name = 'ZenClosedError'
+	}
+}
+
+/**
+ * Raised when a request is aborted by its signal
+ */
+export class ZenAbortError extends ZenError {
+	constructor(message?: string) {
+		super(message)
+		this.name = 'ZenAbortError'
+	}
+}
+
+export type ZenFrameErrorReason = 'too-short' | 'invalid-magic' | 'invalid-checksum' | 'length-mismatch' | 'invalid-colour' | 'invalid-field'
+
+/**
+ * Raised when a frame can't be encoded or decoded
+ */
+export class ZenFrameError extends ZenError {
+	reason: ZenFrameErrorReason
+
+	constructor(reason: ZenFrameErrorReason, message?: string) {
+		super(message)
+		this.name = 'ZenFrameError'
+		this.reason = reason
+	}
+}
+
+/**
+ * Raised when a colour can't be shown by its target
+ */
+export class ZenColourUnsupportedError extends ZenError {
+	constructor(message?: string) {
+		super(message)
+		this.name = 'ZenColourUnsupportedError'
+	}
+}
+
+/**
+ * Raised when an event stream's buffer overflows and its overflow policy is `error`
+ */
+export class ZenEventOverflowError extends ZenError {
+	constructor(message?: string) {
+		super(message)
+		this.name = 'ZenEventOverflowError'
+	}
+}
+
 export const ZenErrorCode = {
 	/** Checksum Error */
 	CHECKSUM: 0x01,
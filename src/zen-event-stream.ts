@@ -0,0 +1,160 @@
+import { ZenAddress } from './zen-address.js'
+import { ZenController } from './zen-controller.js'
+import { ZenEventOverflowError } from './zen-errors.js'
+import { ZenEvent, ZenEventName } from './zen-events.js'
+
+export type ZenEventOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error'
+
+export interface ZenEventStreamOptions {
+	/** Only include events from these controllers */
+	controllers?: ZenController[]
+	/** Only include these event types */
+	types?: ZenEventName[]
+	/** Only include events for these addresses. Instance events match the instance's address. */
+	addresses?: ZenAddress[]
+	/** The maximum number of events buffered while the consumer is busy, defaults to 100 */
+	bufferSize?: number
+	/** What to do when an event arrives and the buffer is full, defaults to `drop-oldest` */
+	overflow?: ZenEventOverflowPolicy
+	/** Ends the stream when aborted */
+	signal?: AbortSignal
+}
+
+/** The address an event relates to, if any */
+function eventAddress(event: ZenEvent): ZenAddress | undefined {
+	if ('address' in event) {
+		return event.address
+	} else if ('instance' in event) {
+		return event.instance.address
+	}
+	return undefined
+}
+
+/**
+ * A filtered, buffered view of events as an `AsyncIterableIterator`. Create with `ZenProtocol.events`.
+ */
+export class ZenEventStream implements AsyncIterableIterator<ZenEvent> {
+	private buffer: ZenEvent[] = []
+	private pending: ((result: IteratorResult<ZenEvent>) => void)[] = []
+	private done = false
+	private error?: Error
+	private bufferSize: number
+	private overflow: ZenEventOverflowPolicy
+	private controllerIds?: Set<number>
+	private types?: Set<ZenEventName>
+	private addresses?: ZenAddress[]
+	private signal?: AbortSignal
+	private onClose: () => void
+	private onAbort = () => this._close()
+
+	constructor(options: ZenEventStreamOptions, onClose: () => void) {
+		this.bufferSize = options.bufferSize ?? 100
+		this.overflow = options.overflow ?? 'drop-oldest'
+		if (this.bufferSize < 1) {
+			throw new Error(`Buffer size must be at least 1, got ${this.bufferSize}`)
+		}
+		this.controllerIds = options.controllers ? new Set(options.controllers.map(controller => controller.id)) : undefined
+		this.types = options.types ? new Set(options.types) : undefined
+		this.addresses = options.addresses
+		this.onClose = onClose
+
+		this.signal = options.signal
+		if (this.signal?.aborted) {
+			this._close()
+		} else {
+			this.signal?.addEventListener('abort', this.onAbort)
+		}
+	}
+
+	/** Whether the stream has ended and no longer receives events */
+	get closed(): boolean {
+		return this.done || !!this.error
+	}
+
+	/** Whether an event passes this stream's filters */
+	matches(event: ZenEvent): boolean {
+		if (this.controllerIds && !this.controllerIds.has(event.controller.id)) {
+			return false
+		}
+		if (this.types && !this.types.has(event.type)) {
+			return false
+		}
+		if (this.addresses) {
+			const address = eventAddress(event)
+			if (!address || !this.addresses.some(candidate => candidate.controller.id === address.controller.id && candidate.type === address.type && candidate.target === address.target)) {
+				return false
+			}
+		}
+		return true
+	}
+
+	/** Offer an event to the stream, which ignores it if it doesn't match the stream's filters */
+	push(event: ZenEvent): void {
+		if (this.done || this.error || !this.matches(event)) {
+			return
+		}
+
+		const waiting = this.pending.shift()
+		if (waiting) {
+			waiting({ value: event, done: false })
+			return
+		}
+
+		if (this.buffer.length >= this.bufferSize) {
+			switch (this.overflow) {
+			case 'drop-oldest':
+				this.buffer.shift()
+				break
+			case 'drop-newest':
+				return
+			case 'error':
+				this.error = new ZenEventOverflowError(`Event stream buffer overflowed its size of ${this.bufferSize}`)
+				this.onClose()
+				return
+			}
+		}
+		this.buffer.push(event)
+	}
+
+	async next(): Promise<IteratorResult<ZenEvent>> {
+		const event = this.buffer.shift()
+		if (event) {
+			return { value: event, done: false }
+		}
+		if (this.error) {
+			const error = this.error
+			this.error = undefined
+			this._close()
+			throw error
+		}
+		if (this.done) {
+			return { value: undefined, done: true }
+		}
+		return new Promise((resolve) => {
+			this.pending.push(resolve)
+		})
+	}
+
+	async return(): Promise<IteratorResult<ZenEvent>> {
+		this._close()
+		return { value: undefined, done: true }
+	}
+
+	[Symbol.asyncIterator](): AsyncIterableIterator<ZenEvent> {
+		return this
+	}
+
+	private _close(): void {
+		if (this.done) {
+			return
+		}
+		this.done = true
+		this.buffer = []
+		this.signal?.removeEventListener('abort', this.onAbort)
+		this.onClose()
+
+		for (const waiting of this.pending.splice(0)) {
+			waiting({ value: undefined, done: true })
+		}
+	}
+}
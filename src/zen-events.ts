@@ -1,3 +1,9 @@
+import { ZenAddress } from './zen-address.js'
+import { ZenColour } from './zen-colour.js'
+import { ZenController, ZenControllerState } from './zen-controller.js'
+import { ZenControlGearStatus } from './zen-gear.js'
+import { ZenInstance } from './zen-instance.js'
+
 export enum ZenEventType {
 	BUTTON_PRESS_EVENT = 0x00,            // Button has been pressed
 	BUTTON_HOLD_EVENT = 0x01,             // Button has been pressed and is being held down
@@ -139,7 +145,7 @@ export class ZenEventMask {
 	}
 
 	upper() {
-		return (this.bitmask() >> 8) * 0xff
+		return (this.bitmask() >> 8) & 0xff
 	}
 
 	lower() {
@@ -147,3 +153,179 @@ export class ZenEventMask {
 	}
 
 }
+
+/** A TPI event filter that mutes events from an address, or from an instance on an address */
+export interface ZenEventFilter {
+	address: ZenAddress
+	/** The instance number, or `null` for the address itself */
+	instance: number | null
+	/** The events that are muted */
+	eventMask: ZenEventMask
+}
+
+export interface ZenEventFilterChange {
+	operation: 'add' | 'clear'
+	filter: ZenEventFilter
+}
+
+function eventFilterKey(filter: ZenEventFilter): string {
+	return `${filter.address.controller.id}.${filter.address.ecgOrEcdOrBroadcast()}.${filter.instance ?? 0xff}`
+}
+
+/**
+ * Work out the changes required to go from the current event filters to the desired event filters.
+ * Clears are returned before adds so that the controller's filter table never overflows unnecessarily.
+ */
+export function planEventFilterChanges(current: ZenEventFilter[], desired: ZenEventFilter[]): ZenEventFilterChange[] {
+	const currentMasks = new Map<string, { filter: ZenEventFilter, mask: number }>()
+	for (const filter of current) {
+		const key = eventFilterKey(filter)
+		const existing = currentMasks.get(key)
+		currentMasks.set(key, { filter, mask: (existing?.mask ?? 0) | filter.eventMask.bitmask() })
+	}
+
+	const desiredMasks = new Map<string, { filter: ZenEventFilter, mask: number }>()
+	for (const filter of desired) {
+		const key = eventFilterKey(filter)
+		const existing = desiredMasks.get(key)
+		desiredMasks.set(key, { filter, mask: (existing?.mask ?? 0) | filter.eventMask.bitmask() })
+	}
+
+	const clears: ZenEventFilterChange[] = []
+	const adds: ZenEventFilterChange[] = []
+	for (const [key, { filter, mask }] of currentMasks) {
+		const clearMask = mask & ~(desiredMasks.get(key)?.mask ?? 0)
+		if (clearMask) {
+			clears.push({ operation: 'clear', filter: { address: filter.address, instance: filter.instance, eventMask: ZenEventMask.fromDoubleByte(clearMask) } })
+		}
+	}
+	for (const [key, { filter, mask }] of desiredMasks) {
+		const addMask = mask & ~(currentMasks.get(key)?.mask ?? 0)
+		if (addMask) {
+			adds.push({ operation: 'add', filter: { address: filter.address, instance: filter.instance, eventMask: ZenEventMask.fromDoubleByte(addMask) } })
+		}
+	}
+	return [...clears, ...adds]
+}
+
+interface ZenEventBase {
+	controller: ZenController
+	/** The raw target from the event packet */
+	target: number
+	/** When the event was received */
+	receivedAt: Date
+}
+
+export interface ZenButtonPressEvent extends ZenEventBase {
+	type: 'buttonPress'
+	instance: ZenInstance
+}
+
+export interface ZenButtonHoldEvent extends ZenEventBase {
+	type: 'buttonHold'
+	instance: ZenInstance
+}
+
+export interface ZenAbsoluteInputEvent extends ZenEventBase {
+	type: 'absoluteInput'
+	instance: ZenInstance
+	value: number
+}
+
+export interface ZenLevelChangeEvent extends ZenEventBase {
+	type: 'levelChange'
+	address: ZenAddress
+	arcLevel: number
+}
+
+export interface ZenGroupLevelChangeEvent extends ZenEventBase {
+	type: 'groupLevelChange'
+	address: ZenAddress
+	arcLevel: number
+}
+
+export interface ZenSceneChangeEvent extends ZenEventBase {
+	type: 'sceneChange'
+	address: ZenAddress
+	scene: number
+}
+
+export interface ZenOccupancyEvent extends ZenEventBase {
+	type: 'occupancy'
+	instance: ZenInstance
+}
+
+export interface ZenSystemVariableChangeEvent extends ZenEventBase {
+	type: 'systemVariableChange'
+	variable: number
+	value: number
+}
+
+export interface ZenColourChangeEvent extends ZenEventBase {
+	type: 'colourChange'
+	address: ZenAddress
+	colour: ZenColour
+}
+
+export interface ZenProfileChangeEvent extends ZenEventBase {
+	type: 'profileChange'
+	profile: number
+}
+
+export interface ZenGroupOccupancyEvent extends ZenEventBase {
+	type: 'groupOccupancy'
+	address: ZenAddress
+	occupied: boolean
+}
+
+export interface ZenLevelChangeV2Event extends ZenEventBase {
+	type: 'levelChangeV2'
+	address: ZenAddress
+	arcLevel: number
+	dimmingTo: number
+}
+
+/** A control gear has reported a failure during gear health monitoring */
+export interface ZenGearFaultEvent extends ZenEventBase {
+	type: 'gearFault'
+	address: ZenAddress
+	status: ZenControlGearStatus
+}
+
+/** A control gear has recovered from a failure during gear health monitoring */
+export interface ZenGearRecoveredEvent extends ZenEventBase {
+	type: 'gearRecovered'
+	address: ZenAddress
+	status: ZenControlGearStatus
+}
+
+/** A controller's reachability has changed, see `ZenProtocol.controllerState`. The `target` is always 0. */
+export interface ZenControllerStateChangeEvent extends ZenEventBase {
+	type: 'controllerStateChange'
+	state: ZenControllerState
+	previousState: ZenControllerState
+}
+
+export type ZenEvent =
+	| ZenButtonPressEvent
+	| ZenButtonHoldEvent
+	| ZenAbsoluteInputEvent
+	| ZenLevelChangeEvent
+	| ZenGroupLevelChangeEvent
+	| ZenSceneChangeEvent
+	| ZenOccupancyEvent
+	| ZenSystemVariableChangeEvent
+	| ZenColourChangeEvent
+	| ZenProfileChangeEvent
+	| ZenGroupOccupancyEvent
+	| ZenLevelChangeV2Event
+	| ZenGearFaultEvent
+	| ZenGearRecoveredEvent
+	| ZenControllerStateChangeEvent
+
+export type ZenEventName = ZenEvent['type']
+
+/** The event payload for the given event name */
+export type ZenEventOf<T extends ZenEventName> = Extract<ZenEvent, { type: T }>
+
+export type ZenEventListener<T extends ZenEventName> = (event: ZenEventOf<T>) => void
@@ -1,3 +1,5 @@
+import { ZenAddress } from './zen-address.js'
+
 export const ZenControlGearType = {
 	/** A fluorescent light */
 	DALI_HW_FLUORESCENT: 0,
@@ -22,3 +24,50 @@ export const ZenControlGearType = {
 } as const
 
 export type ZenControlGearType = (typeof ZenControlGearType)[keyof typeof ZenControlGearType]
+
+/** The identifying information for a DALI control gear (ECG) or control device (ECD) */
+export interface ZenDeviceIdentity {
+	address: ZenAddress
+	label: string | null
+	/** Serial number as a hex string, or `null` if the device didn't report a valid serial number */
+	serial: string | null
+	/** European Article Number / Global Trade Item Number */
+	gtin: number | null
+	fittingNumber: string | null
+	operatingMode: number | null
+	/** The device types of a control gear, empty for control devices */
+	cgTypes: ZenControlGearType[]
+}
+
+/** The decoded DALI status of a control gear, or of a group or broadcast where each flag is set if any gear has it set */
+export class ZenControlGearStatus {
+	controlGearFailure = false
+	lampFailure = false
+	lampOn = false
+	/** An arc level above max or below min was requested */
+	limitError = false
+	fadeRunning = false
+	/** The gear is in its reset state */
+	reset = false
+	missingShortAddress = false
+	/** The gear has had a power failure since it was last set to a level */
+	powerFailure = false
+
+	static fromByte(status: number): ZenControlGearStatus {
+		const result = new ZenControlGearStatus()
+		result.controlGearFailure = (status & 0x01) !== 0
+		result.lampFailure = (status & 0x02) !== 0
+		result.lampOn = (status & 0x04) !== 0
+		result.limitError = (status & 0x08) !== 0
+		result.fadeRunning = (status & 0x10) !== 0
+		result.reset = (status & 0x20) !== 0
+		result.missingShortAddress = (status & 0x40) !== 0
+		result.powerFailure = (status & 0x80) !== 0
+		return result
+	}
+
+	/** Whether the status indicates a failure of the control gear or its lamp */
+	hasFault(): boolean {
+		return this.controlGearFailure || this.lampFailure
+	}
+}
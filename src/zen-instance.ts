@@ -18,6 +18,12 @@ export class ZenInstance {
 	address: ZenAddress
 	type: ZenInstanceType
 	instance: number
+	/** Whether the instance is active, if known */
+	active?: boolean
+	/** Whether the instance has an error, if known */
+	error?: boolean
+	label?: string | null
+	fittingNumber?: string | null
 
 	constructor(address: ZenAddress, type: ZenInstanceType, instance: number) {
 		this.address = address
@@ -0,0 +1,44 @@
+import { ZenController } from './zen-controller.js'
+
+export enum ZenProfilePriority {
+	SCHEDULED = 0,
+	MEDIUM = 1,
+	HIGH = 2,
+	EMERGENCY = 3,
+}
+
+/** The profile number that requests a return to the scheduled profile */
+export const ZEN_PROFILE_SCHEDULED = 0xffff
+
+export class ZenProfile {
+	controller: ZenController
+	profile: number
+	label: string | null
+	enabled: boolean
+	priority: ZenProfilePriority
+
+	constructor(controller: ZenController, profile: number, label: string | null, enabled: boolean, priority: ZenProfilePriority) {
+		this.controller = controller
+		this.profile = profile
+		this.label = label
+		this.enabled = enabled
+		this.priority = priority
+	}
+
+	public toString(): string {
+		return `ZenProfile(${this.controller.id}.${this.profile}, ${this.label}, ${this.enabled ? 'enabled' : 'disabled'}, ${ZenProfilePriority[this.priority]})`
+	}
+}
+
+export interface ZenProfileInformation {
+	/** The currently active profile number */
+	currentProfile: number
+	/** The profile number most recently activated by the schedule */
+	lastScheduledProfile: number
+	/** When a profile was last activated other than by the schedule, or `null` if never */
+	lastOverriddenTime: Date | null
+	/** When a profile was last activated by the schedule, or `null` if never */
+	lastScheduledTime: Date | null
+	/** The profiles available on the controller. Labels are not included in this query so are `null`. */
+	profiles: ZenProfile[]
+}
@@ -1,18 +1,27 @@
-import dgram, { RemoteInfo } from 'node:dgram'
 import os from 'node:os'
 import { log, warn } from 'node:console'
 import { CMD, ZenCommand } from './zen-commands.js'
-import { ZenError, ZenErrorCode, ZenResponseError, ZenTimeoutError } from './zen-errors.js'
-import { ZenController } from './zen-controller.js'
+import { ZenEventFrame, ZenResponseFrame, decodeEventFrame, decodeResponseFrame, encodeRequestPacket } from './zen-codec.js'
+import { ZenAbortError, ZenClosedError, ZenControllerUnavailableError, ZenError, ZenErrorCode, ZenResponseError, ZenTimeoutError } from './zen-errors.js'
+import { ZenController, ZenControllerInfo, ZenControllerState } from './zen-controller.js'
 import { ZenInstance, ZenInstanceType } from './zen-instance.js'
 import { ZenAddress, ZenAddressType } from './zen-address.js'
-import { ZenColour } from './zen-colour.js'
+import { ZenColour, ZenColourCapabilities, ZenColourFeatures, ZenColourTempLimits, adaptColour } from './zen-colour.js'
 import { ZenConst } from './zen-const.js'
-import { ZenEventMask, ZenEventMode, ZenEventType } from './zen-events.js'
-import { ZenScene } from './zen-scene.js'
-import { ZenControlGearType } from './zen-gear.js'
+import { ZenEvent, ZenEventFilter, ZenEventFilterChange, ZenEventListener, ZenEventMask, ZenEventMode, ZenEventName, ZenEventType, planEventFilterChanges } from './zen-events.js'
+import { ZenEventStream, ZenEventStreamOptions } from './zen-event-stream.js'
+import { ZenAddressScene, ZenGroupSceneMatrix, ZenScene } from './zen-scene.js'
+import { ZenControlGearStatus, ZenControlGearType, ZenDeviceIdentity } from './zen-gear.js'
+import { ZEN_PROFILE_SCHEDULED, ZenProfile, ZenProfileInformation } from './zen-profile.js'
+import { ZenRecorder } from './zen-recording.js'
+import { ZenResponseCache } from './zen-response-cache.js'
+import { ZenRequestPriority, ZenRequestQueue } from './zen-request-queue.js'
+import { ZenRttEstimate, ZenRttEstimator, retryBackoff } from './zen-rtt.js'
+import { ZenCommandChannel, ZenEventChannel, ZenRemoteInfo, ZenTransport, ZenUdpTransport } from './zen-transport.js'
 import { hostAddressFor } from './networking.js'
 
+export type { ZenRequestPriority } from './zen-request-queue.js'
+
 interface Logger {
 	debug: (message: string) => void
 	info: (message: string) => void
@@ -23,56 +32,306 @@ export interface ZenProtocolOptions {
 	unicast?: boolean
 	listenIp?: string
 	listenPort?: number
+	/** The time to wait for each response in ms until a controller's round-trip time is measured, or always if `adaptiveTimeouts` is `false` */
 	responseTimeout?: number
+	/** Whether to derive response timeouts from each controller's measured round-trip time, defaults to `true` */
+	adaptiveTimeouts?: boolean
 	controllers?: ZenController[]
 	maxRequestsPerController?: number
 	maxRetries?: number
+	/** Whether controllers should apply their TPI event filters, defaults to `false` */
+	filtering?: boolean
+	/**
+	 * The time in ms, by event type, within which an event that repeats the previous event for the same target is ignored.
+	 * Use 0 to disable deduplication for an event type. Defaults to `ZenConst.EVENT_DEDUPLICATION_WINDOW`, except for button
+	 * presses and holds which are never deduplicated as repeated presses are identical.
+	 */
+	eventDeduplicationWindows?: Partial<Record<ZenEventType, number>>
+	/** Records event packets, and optionally command traffic, for later playback with `ZenPlayer` */
+	recorder?: ZenRecorder
+	/** Carries packets to and from controllers, defaults to UDP */
+	transport?: ZenTransport
+	/** Cache responses to commands whose answers rarely change, off by default. Pass `true` to use the defaults. */
+	cache?: boolean | ZenResponseCacheOptions
+	/**
+	 * Coalesce rapid `daliArcLevel` and `daliColour` commands to the same target, such as from a slider, so that only the
+	 * latest command waiting for the previous one to finish is sent. Off by default.
+	 */
+	coalesce?: ZenCoalesceMode
+	/**
+	 * Fail requests to a controller fast with `ZenControllerUnavailableError` after consecutive requests to it have failed,
+	 * letting a probe request through periodically until it responds. Off by default. Pass `true`, or options, to enable.
+	 */
+	circuitBreaker?: boolean | ZenCircuitBreakerOptions
 	logger?: Logger
 }
 
-enum ZenResponseCode {
+export enum ZenResponseCode {
 	OK = 0xA0,
 	ANSWER = 0xA1,
 	NO_ANSWER = 0xA2,
 	ERROR = 0xA3,
 }
 
+/**
+ * `latest` sends only the latest waiting level or colour for each target. `dapc` also sends a stream of levels to a
+ * target as a DALI Direct Arc Power Control sequence, so that each level is applied without the target's usual fade.
+ */
+export type ZenCoalesceMode = 'latest' | 'dapc'
+
+export interface ZenResponseCacheOptions {
+	/** The commands whose responses are cached, defaults to `ZEN_CACHEABLE_COMMANDS` */
+	commands?: ZenCommand[]
+	/** How long responses are cached in seconds, defaults to `ZenConst.CACHE_TIMEOUT` */
+	ttl?: number
+}
+
+export interface ZenRequestOptions {
+	/** Cancels the request, which then rejects with `ZenAbortError`. Compound commands stop at their next request. */
+	signal?: AbortSignal
+	/** The time to wait for each response in ms, defaults to the controller's adaptive timeout or `responseTimeout` */
+	timeout?: number
+	/** The number of times to send the request before giving up, defaults to `maxRetries` */
+	retries?: number
+	/** Defaults to `normal`, or `background` for compound discovery commands such as `queryDeviceIdentities` */
+	priority?: ZenRequestPriority
+}
+
+export interface ZenCircuitBreakerOptions {
+	/** The number of consecutive failed requests that opens the circuit, defaults to `ZenConst.CIRCUIT_BREAKER_FAILURES` */
+	failureThreshold?: number
+	/** The time between probe requests while the circuit is open in ms, defaults to `ZenConst.CIRCUIT_BREAKER_PROBE_INTERVAL` */
+	probeInterval?: number
+}
+
+export interface ZenCloseOptions {
+	/** The time to wait for requests in flight to finish in ms before rejecting them, defaults to 5 seconds */
+	drainTimeout?: number
+}
+
+export interface ZenWaitUntilReadyOptions {
+	/** The maximum time to wait in ms, defaults to 5 minutes */
+	timeout?: number
+	/** The time between polls in ms, defaults to 5 seconds */
+	interval?: number
+	/** Stops waiting, rejecting with `ZenAbortError` */
+	signal?: AbortSignal
+}
+
+export interface ZenColourCommandOptions extends ZenRequestOptions {
+	/** Adapt the colour to the target's capabilities before sending it */
+	adapt?: boolean
+}
+
 interface ZenResponse {
 	responseCode: number
 	data: Buffer
 }
 
+interface ZenEventListenerEntry {
+	listener: (event: ZenEvent) => void
+	once: boolean
+}
+
+interface ZenCoalescedWaiter {
+	resolve: (result: boolean) => void
+	reject: (error: unknown) => void
+	/** Stop listening for the caller's abort signal */
+	done?: () => void
+}
+
+/** A command to send once, for every caller whose command it replaced */
+interface ZenCoalescedBatch {
+	send: (signal: AbortSignal) => Promise<boolean>
+	/** The callers waiting for the command's result, less those that have aborted */
+	waiters: ZenCoalescedWaiter[]
+	/** Aborted once every caller has aborted, cancelling the command */
+	abort: AbortController
+}
+
+interface ZenCoalescedCommand {
+	/** The latest command waiting for the command being sent to finish */
+	next?: ZenCoalescedBatch
+}
+
+interface ZenDapcSequence {
+	/** When the last level was sent to the target */
+	lastLevel: number
+	/** When the target ends the DAPC sequence, if one has been started */
+	activeUntil: number
+}
+
+interface ZenControllerReachability {
+	state: ZenControllerState
+	/** The number of consecutive requests that have failed */
+	failures: number
+	/** When a response or event was last received from the controller */
+	lastSeen: number
+	/** When the next probe request may be sent while the circuit breaker is open */
+	nextProbe: number
+}
+
 interface ZenRequestPromise {
 	resolve: (response: ZenResponse) => void
 	reject: (error: ZenError) => void
 	controller: ZenController
 	timeout?: NodeJS.Timeout
+	/** When the request was first sent */
+	sentAt: number
+	retries: number
+}
+
+/** Commands whose answers rarely change, so are cached by default when the response cache is enabled */
+export const ZEN_CACHEABLE_COMMANDS: ZenCommand[] = [
+	'QUERY_CONTROLLER_VERSION_NUMBER',
+	'QUERY_CONTROLLER_LABEL',
+	'QUERY_CONTROLLER_FITTING_NUMBER',
+	'QUERY_SYSTEM_VARIABLE_NAME',
+	'QUERY_DALI_DEVICE_LABEL',
+	'QUERY_DALI_SERIAL',
+	'QUERY_DALI_FITTING_NUMBER',
+	'QUERY_DALI_EAN',
+	'QUERY_GROUP_LABEL',
+	'QUERY_SCENE_LABEL_FOR_GROUP',
+	'QUERY_PROFILE_INFORMATION',
+	'QUERY_PROFILE_LABEL',
+	'QUERY_DALI_INSTANCE_FITTING_NUMBER',
+	'QUERY_DALI_INSTANCE_LABEL',
+	'DALI_QUERY_CG_TYPE',
+	'QUERY_DALI_COLOUR_FEATURES',
+	'QUERY_DALI_COLOUR_TEMP_LIMITS',
+]
+
+interface ZenCacheInvalidation {
+	/** Commands whose cached responses are stale for the event's address, and the groups or gear that overlap it */
+	address?: ZenCommand[]
+	/** Commands whose cached responses are stale for the event's whole controller */
+	controller?: ZenCommand[]
+}
+
+/** Cached responses that each event type makes stale */
+const CACHE_INVALIDATIONS: Partial<Record<ZenEventName, ZenCacheInvalidation>> = {
+	levelChange: { address: ['DALI_QUERY_LEVEL', 'DALI_QUERY_CONTROL_GEAR_STATUS'], controller: ['QUERY_GROUP_BY_NUMBER'] },
+	groupLevelChange: { address: ['DALI_QUERY_LEVEL', 'DALI_QUERY_CONTROL_GEAR_STATUS'], controller: ['QUERY_GROUP_BY_NUMBER'] },
+	levelChangeV2: { address: ['DALI_QUERY_LEVEL', 'DALI_QUERY_CONTROL_GEAR_STATUS'], controller: ['QUERY_GROUP_BY_NUMBER'] },
+	sceneChange: { address: ['DALI_QUERY_LEVEL', 'DALI_QUERY_LAST_SCENE', 'DALI_QUERY_LAST_SCENE_IS_CURRENT'], controller: ['QUERY_GROUP_BY_NUMBER'] },
+	colourChange: { address: ['QUERY_DALI_COLOUR'] },
+	occupancy: { controller: ['QUERY_GROUP_BY_NUMBER'] },
+	groupOccupancy: { controller: ['QUERY_GROUP_BY_NUMBER'] },
+	systemVariableChange: { controller: ['QUERY_SYSTEM_VARIABLE'] },
+	profileChange: { controller: ['QUERY_CURRENT_PROFILE_NUMBER', 'QUERY_PROFILE_INFORMATION'] },
+	gearFault: { address: ['DALI_QUERY_CONTROL_GEAR_STATUS'] },
+	gearRecovered: { address: ['DALI_QUERY_CONTROL_GEAR_STATUS'] },
+}
+
+/** The maximum number of addresses returned in a QUERY_DALI_ADDRESSES_WITH_INSTANCES response */
+const ADDRESSES_WITH_INSTANCES_PER_PAGE = 60
+
+/** The maximum number of filters returned in a QUERY_DALI_TPI_EVENT_FILTERS response */
+const EVENT_FILTERS_PER_PAGE = 15
+
+/**
+ * The colour capabilities of a number of DALI targets that are controlled together. A colour feature is supported if any
+ * target supports it, but the colour temperature limits are the range that every target supports, so that an adapted
+ * colour temperature works for all of them. If the targets' ranges don't overlap, the warmest limit is cooler than the
+ * coolest limit, and colour temperatures are adapted to the warmest limit.
+ */
+function combineColourCapabilities(capabilities: ZenColourCapabilities[]): ZenColourCapabilities {
+	let tempLimits: ZenColourTempLimits | null = null
+	for (const { tempLimits: limits } of capabilities) {
+		if (!limits) {
+			continue
+		}
+		/* Soft limits of 0 aren't configured, so the physical limits apply */
+		const softWarmest = limits.softWarmest || limits.physicalWarmest
+		const softCoolest = limits.softCoolest || limits.physicalCoolest
+		if (!tempLimits) {
+			tempLimits = { ...limits, softWarmest, softCoolest }
+		} else {
+			tempLimits.physicalWarmest = Math.max(tempLimits.physicalWarmest, limits.physicalWarmest)
+			tempLimits.physicalCoolest = Math.min(tempLimits.physicalCoolest, limits.physicalCoolest)
+			tempLimits.softWarmest = Math.max(tempLimits.softWarmest, softWarmest)
+			tempLimits.softCoolest = Math.min(tempLimits.softCoolest, softCoolest)
+			tempLimits.step = Math.max(tempLimits.step, limits.step)
+		}
+	}
+
+	return {
+		features: {
+			supportsXy: capabilities.some(c => c.features.supportsXy),
+			supportsTunable: capabilities.some(c => c.features.supportsTunable),
+			primaryCount: Math.max(0, ...capabilities.map(c => c.features.primaryCount)),
+			rgbwafChannels: Math.max(0, ...capabilities.map(c => c.features.rgbwafChannels)),
+		},
+		tempLimits,
+	}
+}
+
+/** Send a compound discovery command's requests as `background` unless the caller chose a priority */
+function discoveryOptions(options: ZenRequestOptions): ZenRequestOptions {
+	return { ...options, priority: options.priority ?? 'background' }
 }
 
-async function delay(ms: number): Promise<void> {
+/** Wait for a time in ms, or until the signal is aborted */
+async function delay(ms: number, signal?: AbortSignal): Promise<void> {
+	if (signal?.aborted) {
+		return
+	}
 	return new Promise((resolve) => {
-		setTimeout(resolve, ms)
+		const timeout = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		function onAbort() {
+			clearTimeout(timeout)
+			resolve()
+		}
+		signal?.addEventListener('abort', onAbort, { once: true })
 	})
 }
 
+function requestAborted(controller: ZenController, command: ZenCommand): ZenAbortError {
+	return new ZenAbortError(`Aborted ${command} to ${controller.host}:${controller.port}`)
+}
+
 export class ZenProtocol {
 	private unicast: boolean
 	private listenIp: string
 	private listenPort: number
 	private responseTimeout: number
+	private adaptiveTimeouts: boolean
+	private filtering: boolean
 
 	private nextSeq = 0
-	private commandSocket: dgram.Socket
-	private eventSocket: dgram.Socket | null = null
+	private transport: ZenTransport
+	private commandChannel: ZenCommandChannel
+	private eventChannel: ZenEventChannel | null = null
+	/** Each controller's event emit mode before event monitoring started, restored when the protocol closes */
+	private originalEventModes = new Map<number, ZenEventMode | null>()
+	private closed = false
+	private closing?: Promise<void>
+	/** Resolves `close` waiting for requests in flight, called when the last one finishes */
+	private drained?: () => void
 	private checkEventMonitoringInterval: NodeJS.Timeout | undefined
+	private gearHealthInterval: NodeJS.Timeout | undefined
+	private gearHealthPolling = false
+	/** The last known status of each control gear, keyed by controller id and address */
+	private gearHealth = new Map<string, ZenControlGearStatus>()
+	private reachabilityInterval: NodeJS.Timeout | undefined
+	private reachabilityPolling = false
+	/** Keyed by controller id */
+	private reachability = new Map<number, ZenControllerReachability>()
+	private circuitBreaker: Required<ZenCircuitBreakerOptions> | null
 
 	/** Used to match events to controllers, and include controller objects in callbacks */
 	public controllers: ZenController[]
 	public maxRequestsPerController: number
 	public maxRetries: number
 
-	private waiting: Record<number, (() => void)[]> = {}
+	private waiting: Record<number, ZenRequestQueue> = {}
 	private activeRequests: Record<number, number> = {}
+	/** Round-trip time estimates, keyed by controller id */
+	private rttEstimators = new Map<number, ZenRttEstimator>()
 
 	public buttonPressCallback?: (instance: ZenInstance) => void
 	public buttonHoldCallback?: (instance: ZenInstance) => void
@@ -86,8 +345,29 @@ export class ZenProtocol {
 	public profileChangeCallback?: (controller: ZenController, profile: number) => void
 	public groupOccupancyCallback?: (address: ZenAddress, occupied: boolean) => void
 	public levelChangeV2Callback?: (address: ZenAddress, arcLevel: number, dimmingTo: number) => void
+	public gearFaultCallback?: (address: ZenAddress, status: ZenControlGearStatus) => void
+	public gearRecoveredCallback?: (address: ZenAddress, status: ZenControlGearStatus) => void
+	public controllerStateChangeCallback?: (controller: ZenController, state: ZenControllerState, previousState: ZenControllerState) => void
+
+	private eventListeners = new Map<ZenEventName, ZenEventListenerEntry[]>()
+	private eventStreams = new Set<ZenEventStream>()
+	private eventDeduplicationWindows: Partial<Record<ZenEventType, number>>
+	/** The most recent event payload and when it was received, keyed by controller MAC, target and event code, in order of receipt */
+	private recentEvents = new Map<string, { payload: string, time: number }>()
+	/** As `recentEvents`, for injected events, which are timed by their `receivedAt` so played back events dedupe as they did when recorded */
+	private recentInjectedEvents = new Map<string, { payload: string, time: number }>()
 
 	private requestsBySeq: ZenRequestPromise[] = []
+	private colourCapabilitiesCache = new Map<string, ZenColourCapabilities>()
+	private responseCache?: ZenResponseCache
+	private coalesce?: ZenCoalesceMode
+	/** Commands being coalesced, keyed by controller id, command and target */
+	private coalescedCommands = new Map<string, ZenCoalescedCommand>()
+	/** DAPC sequences when coalescing with `dapc`, keyed by controller id and target */
+	private dapcSequences = new Map<string, ZenDapcSequence>()
+
+	/** Records event packets, and optionally command traffic, for later playback with `ZenPlayer` */
+	public recorder?: ZenRecorder
 
 	private logger: Logger
 
@@ -96,57 +376,98 @@ export class ZenProtocol {
 		this.listenIp = opts.listenIp ?? '0.0.0.0'
 		this.listenPort = opts.listenPort ?? ZenConst.DEFAULT_UNICAST_PORT
 		this.responseTimeout = opts.responseTimeout ?? ZenConst.RESPONSE_TIMEOUT
+		this.adaptiveTimeouts = opts.adaptiveTimeouts ?? true
+		this.filtering = opts.filtering ?? false
+		this.eventDeduplicationWindows = opts.eventDeduplicationWindows ?? {}
 		this.controllers = opts.controllers || []
 		this.maxRequestsPerController = opts.maxRequestsPerController || ZenConst.DEFAULT_MAX_REQUESTS_PER_CONTROLLER
 		this.maxRetries = opts.maxRetries ?? ZenConst.DEFAULT_MAX_RETRIES
+		this.recorder = opts.recorder
+		if (opts.cache) {
+			const cacheOptions = opts.cache === true ? {} : opts.cache
+			this.responseCache = new ZenResponseCache(cacheOptions.commands ?? ZEN_CACHEABLE_COMMANDS, cacheOptions.ttl ?? ZenConst.CACHE_TIMEOUT)
+		}
+		this.coalesce = opts.coalesce
+		if (opts.circuitBreaker) {
+			const circuitBreakerOptions = opts.circuitBreaker === true ? {} : opts.circuitBreaker
+			this.circuitBreaker = {
+				failureThreshold: circuitBreakerOptions.failureThreshold ?? ZenConst.CIRCUIT_BREAKER_FAILURES,
+				probeInterval: circuitBreakerOptions.probeInterval ?? ZenConst.CIRCUIT_BREAKER_PROBE_INTERVAL,
+			}
+		} else {
+			this.circuitBreaker = null
+		}
 		this.logger = opts.logger ?? console
 
-		this.commandSocket = dgram.createSocket('udp4')
-		this.commandSocket.on('message', (msg: Buffer, rinfo: RemoteInfo) => {
-			if (msg.length < 4) {
-				this.logger.warn(`Received invalid message: too short from ${rinfo.address}:${rinfo.port}`)
-				return
-			}
+		this.transport = opts.transport ?? new ZenUdpTransport()
+		this.commandChannel = this.transport.openCommandChannel({
+			message: (msg, rinfo) => this._handleResponsePacket(msg, rinfo),
+			error: (err) => {
+				this.logger.warn(`Command socket error: ${err}`)
+			},
+			close: () => {
+				this.logger.debug('Command socket closed')
+			},
+		})
+	}
 
-			const responseCode = msg[0]
-			const seq = msg[1]
-			const dataLength = msg[2]
+	private _handleResponsePacket(msg: Buffer, rinfo: ZenRemoteInfo): void {
+		this.recorder?.recordResponse(msg, rinfo)
 
-			const request = this.requestsBySeq[seq]
-			if (!request) {
-				this.logger.warn(`Received message with unknown sequence number (${seq}) from ${rinfo.address}:${rinfo.port}`)
-				return
-			}
+		if (msg.length < 4) {
+			this.logger.warn(`Received invalid message: too short from ${rinfo.address}:${rinfo.port}`)
+			return
+		}
+
+		const seq = msg[1]
+		const request = this.requestsBySeq[seq]
+		if (!request) {
+			this.logger.warn(`Received message with unknown sequence number (${seq}) from ${rinfo.address}:${rinfo.port}`)
+			return
+		}
 
-			delete this.requestsBySeq[seq]
+		delete this.requestsBySeq[seq]
 
-			if (request.timeout) {
-				clearTimeout(request.timeout)
-			}
+		if (request.timeout) {
+			clearTimeout(request.timeout)
+		}
 
-			this.finishActiveRequest(request.controller)
+		if (!request.retries) {
+			this._rttEstimator(request.controller).sample(Date.now() - request.sentAt)
+		}
+		this._controllerReached(request.controller)
 
-			const responseChecksum = msg[msg.length - 1]
-			const expectedChecksum = this.checksumBuffer(msg.subarray(0, msg.length - 1))
-			if (responseChecksum !== expectedChecksum) {
-				request.reject(new ZenResponseError(`Invalid checksum: expected ${expectedChecksum} received ${responseChecksum} from ${rinfo.address}:${rinfo.port}`))
-				return
-			}
+		this.finishActiveRequest(request.controller)
 
-			const expectedLength = 4 + dataLength // type + seq + len + data + checksum
-			if (msg.length !== expectedLength) {
-				request.reject(new ZenResponseError(`Length mismatch: expected ${expectedLength} received ${msg.length} from ${rinfo.address}:${rinfo.port}`))
-				return
-			}
+		let frame: ZenResponseFrame
+		try {
+			frame = decodeResponseFrame(msg)
+		} catch (error) {
+			request.reject(new ZenResponseError(`${error instanceof Error ? error.message : error} from ${rinfo.address}:${rinfo.port}`))
+			return
+		}
 
-			if (dataLength) {
-				const responseData = msg.subarray(3, msg.length - 1)
+		request.resolve({ responseCode: frame.responseCode, data: frame.data })
+	}
 
-				request.resolve({ responseCode, data: responseData })
-			} else {
-				request.resolve({ responseCode, data: Buffer.of() })
-			}
-		})
+	private _rttEstimator(controller: ZenController): ZenRttEstimator {
+		let estimator = this.rttEstimators.get(controller.id)
+		if (!estimator) {
+			/*
+			 * Never wait less than the configured response timeout, as a controller can be slow to answer some commands. A
+			 * timeout below a response's real time would retransmit it every time, and as retransmitted requests aren't
+			 * sampled the estimate could never recover.
+			 */
+			const maxTimeout = Math.max(this.responseTimeout, ZenConst.MAX_RESPONSE_TIMEOUT)
+			estimator = new ZenRttEstimator(this.responseTimeout, this.responseTimeout, maxTimeout)
+			this.rttEstimators.set(controller.id, estimator)
+		}
+		return estimator
+	}
+
+	/** The controller's measured round-trip time and the response timeout derived from it, or `null` if not yet measured. */
+	rttEstimate(controller: ZenController): ZenRttEstimate | null {
+		return this.rttEstimators.get(controller.id)?.estimate() ?? null
 	}
 
 	private finishActiveRequest(controller: ZenController): void {
@@ -156,21 +477,42 @@ export class ZenProtocol {
 		if (waitingFunc) {
 			/* Wait up one waiting request */
 			waitingFunc()
+		} else if (this.drained && !this._hasActiveRequests()) {
+			this.drained()
 		}
 	}
 
-	private checksum(packet: number[]): number {
-		const sum = packet.reduce((acc, byte) => acc ^ byte, 0)
-		return sum & 0xff
+	async sendPacket(controller: ZenController, command: ZenCommand, data: number[], options: ZenRequestOptions = {}): Promise<ZenResponse> {
+		if (this.closed) {
+			throw new ZenClosedError(`Cannot send ${command} to ${controller.host}:${controller.port} as the protocol is closed`)
+		}
+		if (options.signal?.aborted) {
+			throw requestAborted(controller, command)
+		}
+
+		const cached = this.responseCache?.get(controller, command, data)
+		if (cached) {
+			return cached
+		}
+
+		const response = await this._sendPacket(controller, command, data, options)
+		this.responseCache?.set(controller, command, data, response)
+		return response
 	}
 
-	private checksumBuffer(packet: Buffer): number {
-		const sum = packet.reduce((acc, byte) => acc ^ byte, 0)
-		return sum & 0xff
+	/**
+	 * Clear cached responses for an address, for a controller, or for all controllers. Optionally only clear responses to
+	 * the given commands.
+	 */
+	clearResponseCache(target?: ZenAddress | ZenController, commands?: ZenCommand[]): void {
+		this.responseCache?.clear(target, commands)
 	}
 
-	async sendPacket(controller: ZenController, command: ZenCommand, data: number[]): Promise<ZenResponse> {
+	private async _sendPacket(controller: ZenController, command: ZenCommand, data: number[], options: ZenRequestOptions): Promise<ZenResponse> {
 		const commandCode = CMD[command]
+		const signal = options.signal
+		const maxRetries = options.retries ?? this.maxRetries
+		const probe = this._checkCircuitBreaker(controller, command)
 
 		const activeRequests = this.activeRequests[controller.id]
 		if (activeRequests === undefined) {
@@ -179,16 +521,43 @@ export class ZenProtocol {
 
 		if (activeRequests >= this.maxRequestsPerController) {
 			/* Wait for another request to finish */
-			await new Promise<void>((resolve) => {
+			await new Promise<void>((resolve, reject) => {
 				if (!this.waiting[controller.id]) {
-					this.waiting[controller.id] = []
+					this.waiting[controller.id] = new ZenRequestQueue(ZenConst.REQUEST_STARVATION_TIME)
+				}
+				const queue = this.waiting[controller.id]
+
+				function wake() {
+					signal?.removeEventListener('abort', onAbort)
+					resolve()
+				}
+				function onAbort() {
+					/* Leave the queue without taking a request slot */
+					queue.remove(wake)
+					reject(requestAborted(controller, command))
 				}
-				this.waiting[controller.id].push(resolve)
+				queue.push(wake, options.priority ?? 'normal')
+				signal?.addEventListener('abort', onAbort, { once: true })
 			})
 		}
 		
 		this.activeRequests[controller.id]++
 
+		if (activeRequests >= this.maxRequestsPerController) {
+			/* The protocol may have closed, or the circuit opened, while waiting */
+			try {
+				if (this.closed) {
+					throw new ZenClosedError(`Cannot send ${command} to ${controller.host}:${controller.port} as the protocol is closed`)
+				}
+				if (!probe) {
+					this._checkCircuitBreaker(controller, command)
+				}
+			} catch (error) {
+				this.finishActiveRequest(controller)
+				throw error
+			}
+		}
+
 		let seq = this.nextSeq++ % 256
 		let seqLoops = 0
 		const originalSeq = seq
@@ -201,7 +570,11 @@ export class ZenProtocol {
 				/* We've looped looking for a free sequence number */
 				if (seqLoops < 4) {
 					this.logger.warn('No free sequence numbers for message. Waiting for a sequence number.')
-					await delay(Math.pow(10, seqLoops))
+					await delay(Math.pow(10, seqLoops), signal)
+					if (signal?.aborted) {
+						this.finishActiveRequest(controller)
+						throw requestAborted(controller, command)
+					}
 				} else {
 					this.logger.warn('Failed to find a free sequence number for message.')
 					this.finishActiveRequest(controller)
@@ -211,56 +584,90 @@ export class ZenProtocol {
 		}
 
 		return new Promise<ZenResponse>((resolve, reject) => {
-			const payload = [ZenConst.MAGIC_BYTE, seq, commandCode, ...data]
-			const checksum = this.checksum(payload)
-			const packet = Buffer.from([...payload, checksum])
+			const packet = encodeRequestPacket(seq, commandCode, data)
 
 			const req: ZenRequestPromise = {
 				resolve,
 				reject,
 				controller,
+				sentAt: Date.now(),
+				retries: 0,
 			}
 			this.requestsBySeq[seq] = req
 
-			let retries = 0
+			if (signal) {
+				const onAbort = () => {
+					if (this.requestsBySeq[seq] !== req) {
+						return
+					}
+					/* Free the sequence number; a late response is ignored like any unknown sequence number */
+					clearTimeout(req.timeout)
+					delete this.requestsBySeq[seq]
+					this.finishActiveRequest(controller)
+					reject(requestAborted(controller, command))
+				}
+				signal.addEventListener('abort', onAbort, { once: true })
+				req.resolve = (response) => {
+					signal.removeEventListener('abort', onAbort)
+					resolve(response)
+				}
+				req.reject = (error) => {
+					signal.removeEventListener('abort', onAbort)
+					reject(error)
+				}
+			}
 
 			const handleSend = (err: Error | null) => {
+				if (this.requestsBySeq[seq] !== req) {
+					/* The request was answered or aborted while sending */
+					return
+				}
+
 				if (err) {
 					this.logger.warn(`Failed to send message to ${controller.host}:${controller.port}: ${err instanceof Error ? err.message : err}`)
 
 					delete this.requestsBySeq[seq]
 					this.finishActiveRequest(controller)
-					reject(err)
+					this._controllerFailed(controller)
+					req.reject(err)
 				} else {
 					const timeout = () => {
-						retries++
+						req.retries++
+						this._rttEstimator(controller).backoff()
 
-						if (retries >= this.maxRetries) {
-							this.logger.warn(`Failed to send message to ${controller.host}:${controller.port}: too many retries (${retries})`)
+						if (req.retries >= maxRetries) {
+							this.logger.warn(`Failed to send message to ${controller.host}:${controller.port}: too many retries (${req.retries})`)
 
 							delete this.requestsBySeq[seq]
 							this.finishActiveRequest(controller)
-							reject(new ZenTimeoutError(`Failed to send message to ${controller.host}:${controller.port}: too many retries (${retries})`))
+							this._controllerFailed(controller)
+							req.reject(new ZenTimeoutError(`Failed to send message to ${controller.host}:${controller.port}: too many retries (${req.retries})`))
 						} else {
-							this.commandSocket.send(packet, 0, packet.length, controller.port, controller.host, handleSend)
+							/* Back off before retrying, still accepting a late response in the meantime */
+							req.timeout = setTimeout(() => {
+								this.recorder?.recordRequest(packet, controller.host, controller.port)
+								this.commandChannel.send(packet, controller.host, controller.port).then(() => handleSend(null), handleSend)
+							}, retryBackoff(req.retries, ZenConst.RETRY_BACKOFF_BASE, ZenConst.RETRY_BACKOFF_MAX))
 						}
 					}
 
-					req.timeout = setTimeout(timeout, this.responseTimeout)
+					const responseTimeout = options.timeout ?? (this.adaptiveTimeouts ? this._rttEstimator(controller).timeout() : this.responseTimeout)
+					req.timeout = setTimeout(timeout, responseTimeout)
 				}
 			}
 			
-			this.commandSocket.send(packet, 0, packet.length, controller.port, controller.host, handleSend)
+			this.recorder?.recordRequest(packet, controller.host, controller.port)
+			this.commandChannel.send(packet, controller.host, controller.port).then(() => handleSend(null), handleSend)
 		})
 	}
 
-	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'str'): Promise<string | null>
-	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'bytes'): Promise<Buffer | null>
-	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'int'): Promise<number | null>
-	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'bool'): Promise<boolean | null>
-	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'ok'): Promise<boolean | null>
-	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'list'): Promise<number[] | null>
-	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'str' | 'bytes' | 'int' | 'bool' | 'ok' | 'list'): Promise<string | Buffer | number | boolean | number[] | null> {
+	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'str', options?: ZenRequestOptions): Promise<string | null>
+	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'bytes', options?: ZenRequestOptions): Promise<Buffer | null>
+	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'int', options?: ZenRequestOptions): Promise<number | null>
+	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'bool', options?: ZenRequestOptions): Promise<boolean | null>
+	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'ok', options?: ZenRequestOptions): Promise<boolean | null>
+	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'list', options?: ZenRequestOptions): Promise<number[] | null>
+	async sendBasicFrame(controller: ZenController, command: ZenCommand, address: number, data: number[], returnType: 'str' | 'bytes' | 'int' | 'bool' | 'ok' | 'list', options?: ZenRequestOptions): Promise<string | Buffer | number | boolean | number[] | null> {
 		if (data.length > 3) {
 			throw new Error('data must be 0-3 bytes')
 		}
@@ -269,7 +676,7 @@ export class ZenProtocol {
 			data.push(0)
 		}
 
-		const response = await this.sendPacket(controller, command, [address, ...data])
+		const response = await this.sendPacket(controller, command, [address, ...data], options)
 
 		switch (response.responseCode) {
 		case ZenResponseCode.OK: {
@@ -333,11 +740,11 @@ export class ZenProtocol {
 		}
 	}
 
-	async sendDynamicFrame(controller: ZenController, command: ZenCommand, data: number[], returnType: 'ok'): Promise<boolean | null>
-	async sendDynamicFrame(controller: ZenController, command: ZenCommand, data: number[], returnType: 'bytes'): Promise<Buffer | null>
-	async sendDynamicFrame(controller: ZenController, command: ZenCommand, data: number[], returnType: 'ok' | 'bytes'): Promise<boolean | Buffer | null> {
+	async sendDynamicFrame(controller: ZenController, command: ZenCommand, data: number[], returnType: 'ok', options?: ZenRequestOptions): Promise<boolean | null>
+	async sendDynamicFrame(controller: ZenController, command: ZenCommand, data: number[], returnType: 'bytes', options?: ZenRequestOptions): Promise<Buffer | null>
+	async sendDynamicFrame(controller: ZenController, command: ZenCommand, data: number[], returnType: 'ok' | 'bytes', options?: ZenRequestOptions): Promise<boolean | Buffer | null> {
 		// Calculate data length and prepend it to data
-		const response = await this.sendPacket(controller, command, [data.length, ...data])
+		const response = await this.sendPacket(controller, command, [data.length, ...data], options)
 
 		// Check response type
 		switch (response.responseCode) {
@@ -409,12 +816,12 @@ export class ZenProtocol {
 	// return None
 
 	/** Send a DALI colour command. */
-	async sendColour(controller: ZenController, command: ZenCommand, address: number, colour: ZenColour, level = 255): Promise<boolean> {
+	async sendColour(controller: ZenController, command: ZenCommand, address: number, colour: ZenColour, level = 255, options: ZenRequestOptions = {}): Promise<boolean> {
 		if (level < 0 || level > 255) {
 			throw new Error('Level must be between 0 and 255')
 		}
 
-		const result = await this.sendPacket(controller, command, [address, level, ...colour.toBytes()])
+		const result = await this.sendPacket(controller, command, [address, level, ...colour.toBytes()], options)
 		switch (result.responseCode) {
 		case ZenResponseCode.OK:
 			return true
@@ -430,38 +837,44 @@ export class ZenProtocol {
 	// ============================
 
 	/** Get the label for a DALI Group. Returns a string, or `null` if no label is set. */
-	async queryGroupLabel(address: ZenAddress, genericIfNone = false): Promise<string | null> {
-		const result = await this.sendBasicFrame(address.controller, 'QUERY_GROUP_LABEL', address.group(), [], 'str')
+	async queryGroupLabel(address: ZenAddress, genericIfNone = false, options: ZenRequestOptions = {}): Promise<string | null> {
+		const result = await this.sendBasicFrame(address.controller, 'QUERY_GROUP_LABEL', address.group(), [], 'str', options)
 		return result || (genericIfNone ? `Group ${address.group()}` : null)
 	}
 
 	/** Query the label for a DALI device (control gear or control device). Returns a string, or `null` if no label is set. */
-	async queryDaliDeviceLabel(address: ZenAddress, genericIfNone = false): Promise<string | null> {
-		const result = await this.sendBasicFrame(address.controller, 'QUERY_DALI_DEVICE_LABEL', address.ecgOrEcd(), [], 'str')
+	async queryDaliDeviceLabel(address: ZenAddress, genericIfNone = false, options: ZenRequestOptions = {}): Promise<string | null> {
+		const result = await this.sendBasicFrame(address.controller, 'QUERY_DALI_DEVICE_LABEL', address.ecgOrEcd(), [], 'str', options)
 		return result || (genericIfNone ? `Controller ${address.controller.id} ${address.type === ZenAddressType.ECG ? 'ECG' : 'ECD'} ${address.target}` : null)
 	}
 
-	// def query_profile_label(self, controller: ZenController, profile: int) -> Optional[str]:
-	//     """Get the label for a Profile number (0-65535). Returns a string if a label exists, else None."""
-	//     # Profile numbers are 2 bytes long, so check valid range
-	//     if not 0 <= profile <= 65535:
-	//         raise ValueError("Profile number must be between 0 and 65535")
-	//     # Split profile number into upper and lower bytes
-	//     profile_upper = (profile >> 8) & 0xFF
-	//     profile_lower = profile & 0xFF
-	//     # Send request
-	//     return self._send_basic(controller, self.CMD["QUERY_PROFILE_LABEL"], 0x00, [0x00, profile_upper, profile_lower], return_type='str', cacheable=True)
-
-	// def query_current_profile_number(self, controller: ZenController) -> Optional[int]:
-	//     """Get the current/active Profile number for a controller. Returns int, else None if query fails."""
-	//     response = self._send_basic(controller, self.CMD["QUERY_CURRENT_PROFILE_NUMBER"])
-	//     if response and len(response) >= 2: # Profile number is 2 bytes, combine them into a single integer. First byte is high byte, second is low byte
-	//         return (response[0] << 8) | response[1]
-	//     return None
+	/** Get the label for a Profile number (0-65535). Returns a string, or `null` if no label is set. */
+	async queryProfileLabel(controller: ZenController, profile: number, genericIfNone = false, options: ZenRequestOptions = {}): Promise<string | null> {
+		if (profile < 0 || profile > 0xffff) {
+			throw new Error(`Profile number must be between 0 and 65535, received ${profile}`)
+		}
+
+		// Split profile number into upper and lower bytes
+		const profileHi = (profile >> 8) & 0xff
+		const profileLo = profile & 0xff
+		const result = await this.sendBasicFrame(controller, 'QUERY_PROFILE_LABEL', 0x00, [0x00, profileHi, profileLo], 'str', options)
+		return result || (genericIfNone ? `Profile ${profile}` : null)
+	}
+
+	/** Get the current/active Profile number for a controller. Returns the profile number, or `null` if query fails. */
+	async queryCurrentProfileNumber(controller: ZenController, options: ZenRequestOptions = {}): Promise<number | null> {
+		const response = await this.sendBasicFrame(controller, 'QUERY_CURRENT_PROFILE_NUMBER', 0x00, [], 'bytes', options)
+		if (response && response.length >= 2) {
+			// Profile number is 2 bytes, first byte is high byte, second is low byte
+			return (response[0] << 8) | response[1]
+		} else {
+			return null
+		}
+	}
 
 	/** Get the current TPI Event multicast emitter state for a controller. Returns `true` if enabled, `false` if disabled, `null` if query fails. */
-	async queryTpiEventEmitState(controller: ZenController): Promise<ZenEventMode | null> {
-		const modeFlag = await this.sendBasicFrame(controller, 'QUERY_TPI_EVENT_EMIT_STATE', 0, [], 'int')
+	async queryTpiEventEmitState(controller: ZenController, options: ZenRequestOptions = {}): Promise<ZenEventMode | null> {
+		const modeFlag = await this.sendBasicFrame(controller, 'QUERY_TPI_EVENT_EMIT_STATE', 0, [], 'int', options)
 		if (modeFlag !== null) {
 			return ZenEventMode.fromByte(modeFlag)
 		} else {
@@ -469,21 +882,25 @@ export class ZenProtocol {
 		}
 	}
 
-	// def dali_add_tpi_event_filter(self, address: ZenAddress|ZenInstance, filter: ZenEventMask = ZenEventMask.all_events()) -> bool:
-	//     """Stop specific events from an address/instance from being sent. Events in mask will be muted. Returns true if filter was added successfully."""
-	//     instance_number = 0xFF
-	//     if isinstance(address, ZenInstance):
-	//         instance: ZenInstance = address
-	//         instance_number = instance.number
-	//         address = instance.address
-	//     return self._send_basic(address.controller,
-	//                          self.CMD["DALI_ADD_TPI_EVENT_FILTER"],
-	//                          address.ecg_or_ecd_or_broadcast(),
-	//                          [instance_number, filter.upper(), filter.lower()],
-	//                          return_type='bool')
+	/** Stop specific events from an address/instance from being sent. Events in mask will be muted. Returns true if filter was added successfully. */
+	async addTpiEventFilter(address: ZenAddress | ZenInstance, filter: ZenEventMask = ZenEventMask.allEvents(), options: ZenRequestOptions = {}): Promise<boolean | null> {
+		let instanceNumber = 0xff
+		if (address instanceof ZenInstance) {
+			instanceNumber = address.instance
+			address = address.address
+		}
+
+		return this.sendBasicFrame(address.controller,
+			'DALI_ADD_TPI_EVENT_FILTER',
+			address.ecgOrEcdOrBroadcast(),
+			[ instanceNumber, filter.upper(), filter.lower() ],
+			'bool',
+			options,
+		)
+	}
 
 	/** Allow specific events from an address/instance to be sent again. Events in mask will be unmuted. Returns true if filter was cleared successfully. */
-	async clearTpiEventFilter(address: ZenAddress | ZenInstance, unfilter: ZenEventMask = ZenEventMask.allEvents()): Promise<boolean | null> {
+	async clearTpiEventFilter(address: ZenAddress | ZenInstance, unfilter: ZenEventMask = ZenEventMask.allEvents(), options: ZenRequestOptions = {}): Promise<boolean | null> {
 		let instance_number = 0xff
 		if (address instanceof ZenInstance) {
 			instance_number = address.instance
@@ -495,63 +912,102 @@ export class ZenProtocol {
 			address.ecgOrEcdOrBroadcast(),
 			[ instance_number, unfilter.upper(), unfilter.lower() ],
 			'bool',
+			options,
 		)
 	}
 
-	// def query_dali_tpi_event_filters(self, address: ZenAddress|ZenInstance) -> list[dict]:
-	//     """Query active event filters for an address (or a specific instance). Returns a list of dictionaries containing filter info, or None if query fails."""
-	//     instance_number = 0xFF
-	//     if isinstance(address, ZenInstance):
-	//         instance: ZenInstance = address
-	//         instance_number = instance.number
-	//         address = instance.address
-    
-	//     # As the data payload can only be up to 64 bytes and there are up to 64 event filters, it may be necessary to query several times.
-	//     # If you have all 64 event filters active, you will receive results 0-14 in the first response.
-	//     results = []
-	//     start_at = 0
-	//     while True:
-    
-	//         response = self._send_basic(address.controller, 
-	//                                 self.CMD["QUERY_DALI_TPI_EVENT_FILTERS"],
-	//                                 address.ecg_or_ecd_or_broadcast(),
-	//                                 [start_at, 0x00, instance_number])
-        
-	//         # Byte 0: TPI event modes active, ignored here.
-	//         # modes_active = response[0]
-                                
-	//         if response and len(response) >= 5:  # Need at least modes + one result
-
-	//             # Starting from the second byte (1), process results in groups of 4 bytes
-	//             for i in range(1, len(response)-3, 4):
-	//                 result = {
-	//                     'address': response[i],
-	//                     'instance': response[i+1],
-	//                     'event_mask': ZenEventMask.from_upper_lower(response[i+2], response[i+3])
-	//                 }
-	//                 results.append(result)
-            
-	//             if len(results) < 60: # 15 results * 4 bytes = 60 bytes. If we received fewer than 15 results, then there are no more.
-	//                 break
-        
-	//         else:
-	//             break # If there are no more results, stop querying
-        
-	//         # To complete the set, you would request 15, 30, 45, 60 as starting numbers or until you receive None (NO_ANSWER).
-	//         start_at += 15
-            
-	//     return results
+	/**
+	 * Query active event filters for an address (or a specific instance). Query the broadcast address to return all of the
+	 * filters on the controller.
+	 *
+	 * There can be up to 64 event filters but each response only contains 15, so this queries repeatedly until all filters
+	 * have been returned.
+	 */
+	async queryTpiEventFilters(address: ZenAddress | ZenInstance, options: ZenRequestOptions = {}): Promise<ZenEventFilter[]> {
+		let instanceNumber = 0xff
+		if (address instanceof ZenInstance) {
+			instanceNumber = address.instance
+			address = address.address
+		}
+
+		const result: ZenEventFilter[] = []
+		for (let startAt = 0; startAt < ZenConst.MAX_EVENT_FILTERS; startAt += EVENT_FILTERS_PER_PAGE) {
+			const response = await this.sendBasicFrame(address.controller, 'QUERY_DALI_TPI_EVENT_FILTERS', address.ecgOrEcdOrBroadcast(), [startAt, 0x00, instanceNumber], 'bytes', options)
+			// Need at least modes + one result
+			if (!response || response.length < 5) {
+				break
+			}
+
+			// Byte 0 is the TPI event modes active, then results in groups of 4 bytes
+			let count = 0
+			for (let i = 1; i + 3 < response.length; i += 4) {
+				count++
+
+				const filterAddress = this._eventFilterAddress(address.controller, response[i])
+				if (!filterAddress) {
+					this.logger.warn(`Ignoring event filter with unexpected address: ${response[i]}`)
+					continue
+				}
+				result.push({
+					address: filterAddress,
+					instance: response[i + 1] !== 0xff ? response[i + 1] : null,
+					eventMask: ZenEventMask.fromUpperLower(response[i + 2], response[i + 3]),
+				})
+			}
+
+			if (count < EVENT_FILTERS_PER_PAGE) {
+				break
+			}
+		}
+		return result
+	}
+
+	private _eventFilterAddress(controller: ZenController, address: number): ZenAddress | null {
+		if (address < 64) {
+			return new ZenAddress(controller, ZenAddressType.ECG, address)
+		} else if (address < 128) {
+			return new ZenAddress(controller, ZenAddressType.ECD, address - 64)
+		} else if (address === 255) {
+			return ZenAddress.broadcast(controller)
+		} else {
+			return null
+		}
+	}
+
+	/**
+	 * Compound command to make the event filters on each controller match the desired filters. The current filters are
+	 * queried from each controller and only the necessary filters are added or cleared. Controllers without any desired
+	 * filters have all of their filters cleared. Returns the changes that were made.
+	 */
+	async setTpiEventFilters(filters: ZenEventFilter[], controllers: ZenController[] = this.controllers, options: ZenRequestOptions = {}): Promise<ZenEventFilterChange[]> {
+		const result: ZenEventFilterChange[] = []
+		for (const controller of controllers) {
+			const current = await this.queryTpiEventFilters(ZenAddress.broadcast(controller), options)
+			const desired = filters.filter(filter => filter.address.controller === controller)
+
+			for (const change of planEventFilterChanges(current, desired)) {
+				const { address, instance, eventMask } = change.filter
+				const command = change.operation === 'add' ? 'DALI_ADD_TPI_EVENT_FILTER' : 'DALI_CLEAR_TPI_EVENT_FILTERS'
+				const success = await this.sendBasicFrame(controller, command, address.ecgOrEcdOrBroadcast(), [instance ?? 0xff, eventMask.upper(), eventMask.lower()], 'bool', options)
+				if (!success) {
+					throw new ZenResponseError(`Failed to ${change.operation} event filter for ${address}${instance !== null ? ` instance ${instance}` : ''}`)
+				}
+				result.push(change)
+			}
+		}
+		return result
+	}
 
 	/** Enable or disable TPI Event emission. Returns `true` if successful, else `false`. */
-	async tpiEventEmit(controller: ZenController, mode: ZenEventMode = new ZenEventMode({ enabled: true, filtering: false, unicast: false, multicast: true })): Promise<boolean> {
+	async tpiEventEmit(controller: ZenController, mode: ZenEventMode = new ZenEventMode({ enabled: true, filtering: false, unicast: false, multicast: true }), options: ZenRequestOptions = {}): Promise<boolean> {
 		const modeFlag = mode.bitmask()
-		await this.sendBasicFrame(controller, 'ENABLE_TPI_EVENT_EMIT', 0x00, [], 'int') // disable first to clear any existing state... I think this is a bug?
-		const result = await this.sendBasicFrame(controller, 'ENABLE_TPI_EVENT_EMIT', modeFlag, [], 'int')
+		await this.sendBasicFrame(controller, 'ENABLE_TPI_EVENT_EMIT', 0x00, [], 'int', options) // disable first to clear any existing state... I think this is a bug?
+		const result = await this.sendBasicFrame(controller, 'ENABLE_TPI_EVENT_EMIT', modeFlag, [], 'int', options)
 		return (result === modeFlag)
 	}
 
 	/** Configure TPI Events for Unicast mode with IP and port as defined in the ZenController instance. */
-	async setTpiEventUnicastAddress(controller: ZenController, ipaddr?: string, port: number = ZenConst.DEFAULT_UNICAST_PORT): Promise<boolean | null> {
+	async setTpiEventUnicastAddress(controller: ZenController, ipaddr?: string, port: number = ZenConst.DEFAULT_UNICAST_PORT, options: ZenRequestOptions = {}): Promise<boolean | null> {
 		if (ipaddr !== undefined) {
 			if (port < 0 || port > 65535) {
 				throw new Error('Port must be between 0 and 65535')
@@ -563,9 +1019,9 @@ export class ZenProtocol {
 
 			// Construct data payload: [port_upper, port_lower, ip1, ip2, ip3, ip4]
 			const data = [portUpper, portLower, ...ipaddr.split('.').map(str => Number(str))]
-			return await this.sendDynamicFrame(controller, 'SET_TPI_EVENT_UNICAST_ADDRESS', data, 'ok')
+			return await this.sendDynamicFrame(controller, 'SET_TPI_EVENT_UNICAST_ADDRESS', data, 'ok', options)
 		} else {
-			return await this.sendDynamicFrame(controller, 'SET_TPI_EVENT_UNICAST_ADDRESS', [0,0,0,0,0,0], 'ok')
+			return await this.sendDynamicFrame(controller, 'SET_TPI_EVENT_UNICAST_ADDRESS', [0,0,0,0,0,0], 'ok', options)
 		}
 	}
 	// def set_tpi_event_unicast_address(self, controller: ZenController, ipaddr: Optional[str] = None, port: Optional[int] = None):
@@ -618,8 +1074,8 @@ export class ZenProtocol {
 	//     return None
 
 	/** Query a controller for groups. */
-	async queryGroupNumbers(controller: ZenController): Promise<ZenAddress[]> {
-		const groups = await this.sendBasicFrame(controller, 'QUERY_GROUP_NUMBERS', 0, [], 'list')
+	async queryGroupNumbers(controller: ZenController, options: ZenRequestOptions = {}): Promise<ZenAddress[]> {
+		const groups = await this.sendBasicFrame(controller, 'QUERY_GROUP_NUMBERS', 0, [], 'list', options)
 		if (!groups) {
 			return []
 		}
@@ -627,52 +1083,86 @@ export class ZenProtocol {
 		return groups.sort().map(group => new ZenAddress(controller, ZenAddressType.GROUP, group))
 	}
     
-	// def query_dali_colour(self, address: ZenAddress) -> Optional[ZenColour]:
-	//     """Query colour information from a DALI address."""
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_DALI_COLOUR"], address.ecg())
-	//     return ZenColour.from_bytes(response)
-
-	// def query_profile_information(self, controller: ZenController) -> Optional[tuple[dict, dict]]:
-	//     """Query a controller for profile information. Returns a tuple of two dicts, or None if query fails."""
-	//     response = self._send_basic(controller, self.CMD["QUERY_PROFILE_INFORMATION"], cacheable=True)
-	//     # Initial 12 bytes:
-	//     # 0-1 0x00 Current Active Profile Number
-	//     # 2-3 0x00 Last Scheduled Profile Number
-	//     # 4-7 0x22334455 Last Overridden Profile UTC
-	//     # 8-11 0x44556677 Last Scheduled Profile UTC
-	//     unpacked = struct.unpack('>HHII', response[0:12])
-	//     state = {
-	//         'current_active_profile': unpacked[0],
-	//         'last_scheduled_profile': unpacked[1],
-	//         'last_overridden_profile_utc': dt.fromtimestamp(unpacked[2]),
-	//         'last_scheduled_profile_utc': dt.fromtimestamp(unpacked[3])
-	//     }
-	//     # Process profiles in groups of 3 bytes (2 bytes for profile number, 1 byte for profile behaviour)
-	//     profiles: dict[int, int] = {}
-	//     for i in range(12, len(response), 3):
-	//         profile_number = struct.unpack('>H', response[i:i+2])[0]
-	//         profile_behaviour = response[i+2]
-	//         # bit 0: enabled: 0 = disabled, 1 = enabled
-	//         # bit 1-2: priority: two bit int where 0 = scheduled, 1 = medium, 2 = high, 3 = emergency
-	//         enabled = not bool(profile_behaviour & 0x01)
-	//         priority = (profile_behaviour >> 1) & 0x03
-	//         priority_label = ["Scheduled", "Medium", "High", "Emergency"][priority]
-	//         profiles[profile_number] = {"enabled": enabled, "priority": priority, "priority_label": priority_label}
-	//     # Return tuple of state and profiles
-	//     return state, profiles
-
-	// def query_profile_numbers(self, controller: ZenController) -> Optional[list[int]]:
-	//     """Query a controller for a list of available Profile Numbers. Returns a list of profile numbers, or None if query fails."""
-	//     response = self._send_basic(controller, self.CMD["QUERY_PROFILE_NUMBERS"])
-	//     if response and len(response) >= 2:
-	//         # Response contains pairs of bytes for each profile number
-	//         profile_numbers = []
-	//         for i in range(0, len(response), 2):
-	//             if i + 1 < len(response):
-	//                 profile_num = (response[i] << 8) | response[i+1]
-	//                 profile_numbers.append(profile_num)
-	//         return profile_numbers
-	//     return None
+	/** Query the current colour of a DALI address (ECG). Returns a ZenColour, or `null` if the address has no colour. */
+	async queryDaliColour(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenColour | null> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_DALI_COLOUR', address.ecg(), [], 'bytes', options)
+		if (!response || !response.length) {
+			return null
+		}
+		try {
+			return ZenColour.fromBytes(response)
+		} catch (error) {
+			throw new ZenResponseError(`Unexpected response for QUERY_DALI_COLOUR: ${error instanceof Error ? error.message : error}`)
+		}
+	}
+
+	/** Query a controller for profile information, including the current and scheduled profiles and the behaviour of each profile. Returns `null` if query fails. */
+	async queryProfileInformation(controller: ZenController, options: ZenRequestOptions = {}): Promise<ZenProfileInformation | null> {
+		const response = await this.sendBasicFrame(controller, 'QUERY_PROFILE_INFORMATION', 0x00, [], 'bytes', options)
+		if (!response) {
+			return null
+		}
+		if (response.length < 12 || (response.length - 12) % 3 !== 0) {
+			throw new ZenResponseError(`Unexpected response for QUERY_PROFILE_INFORMATION: ${response.length}`)
+		}
+
+		// Initial 12 bytes:
+		// 0-1 Current Active Profile Number
+		// 2-3 Last Scheduled Profile Number
+		// 4-7 Last Overridden Profile UTC
+		// 8-11 Last Scheduled Profile UTC
+		const lastOverridden = response.readUInt32BE(4)
+		const lastScheduled = response.readUInt32BE(8)
+
+		// Process profiles in groups of 3 bytes (2 bytes for profile number, 1 byte for profile behaviour)
+		const profiles: ZenProfile[] = []
+		for (let i = 12; i < response.length; i += 3) {
+			const profile = response.readUInt16BE(i)
+			const behaviour = response[i + 2]
+			// bit 0: disabled
+			// bit 1-2: priority
+			const enabled = !(behaviour & 0x01)
+			const priority = (behaviour >> 1) & 0x03
+			profiles.push(new ZenProfile(controller, profile, null, enabled, priority))
+		}
+
+		return {
+			currentProfile: response.readUInt16BE(0),
+			lastScheduledProfile: response.readUInt16BE(2),
+			lastOverriddenTime: lastOverridden ? new Date(lastOverridden * 1000) : null,
+			lastScheduledTime: lastScheduled ? new Date(lastScheduled * 1000) : null,
+			profiles,
+		}
+	}
+
+	/** Query a controller for a list of available Profile Numbers. Returns a list of profile numbers. */
+	async queryProfileNumbers(controller: ZenController, options: ZenRequestOptions = {}): Promise<number[]> {
+		const response = await this.sendBasicFrame(controller, 'QUERY_PROFILE_NUMBERS', 0x00, [], 'bytes', options)
+		if (!response) {
+			return []
+		}
+
+		// Response contains pairs of bytes for each profile number
+		const result: number[] = []
+		for (let i = 0; i + 1 < response.length; i += 2) {
+			result.push((response[i] << 8) | response[i + 1])
+		}
+		return result
+	}
+
+	/** Compound command to query the profiles on a controller, including their labels. Returns `null` if query fails. */
+	async queryProfiles(controller: ZenController, genericIfNone = false, options: ZenRequestOptions = {}): Promise<ZenProfile[] | null> {
+		options = discoveryOptions(options)
+		const information = await this.queryProfileInformation(controller, options)
+		if (!information) {
+			return null
+		}
+
+		for (const profile of information.profiles) {
+			profile.label = await this.queryProfileLabel(controller, profile.profile, genericIfNone, options)
+		}
+		return information.profiles
+	}
 
 	// def query_occupancy_instance_timers(self, instance: ZenInstance) -> Optional[dict]:
 	//     """Query timer values for a DALI occupancy sensor instance. Returns dict, or None if query fails.
@@ -694,41 +1184,113 @@ export class ZenProtocol {
 	//         }
 	//     return None
 
-	// def query_instances_by_address(self, address: ZenAddress) -> list[ZenInstance]:
-	//     """Query a DALI address (ECD) for associated instances. Returns a list of ZenInstance, or an empty list if nothing found."""
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_INSTANCES_BY_ADDRESS"], address.ecd())
-	//     if response and len(response) >= 4:
-	//         instances = []
-	//         # Process groups of 4 bytes for each instance
-	//         for i in range(0, len(response), 4):
-	//             if i + 3 < len(response):
-	//                 instances.append(ZenInstance(
-	//                     address=address,
-	//                     number=response[i], # first byte
-	//                     type=ZenInstanceType(response[i+1]) if response[i+1] in ZenInstanceType._value2member_map_ else None, # second byte
-	//                     active=bool(response[i+2] & 0x02), # third byte, second bit
-	//                     error=bool(response[i+2] & 0x01), # third byte, first bit
-	//                 ))
-	//         return instances
-	//     return []
-
-	// def query_operating_mode_by_address(self, address: ZenAddress) -> Optional[int]:
-	//     """Query a DALI address (ECG or ECD) for its operating mode. Returns an int containing the operating mode value, or None if the query fails."""
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_OPERATING_MODE_BY_ADDRESS"], address.ecg_or_ecd())
-	//     if response and len(response) == 1:
-	//         return response[0]  # Operating mode is in first byte
-	//     return None
+	/**
+	 * Query a DALI address (ECD) for associated instances. Returns a list of ZenInstance, including their active and error
+	 * flags, label and fitting number, or an empty list if nothing found.
+	 */
+	async queryInstancesByAddress(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenInstance[]> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_INSTANCES_BY_ADDRESS', address.ecd(), [], 'bytes', options)
+		if (!response) {
+			return []
+		}
+
+		const instances: ZenInstance[] = []
+		// Process groups of 4 bytes for each instance
+		for (let i = 0; i + 3 < response.length; i += 4) {
+			const instance = new ZenInstance(address, response[i + 1] as ZenInstanceType, response[i])
+			instance.active = (response[i + 2] & 0x02) !== 0
+			instance.error = (response[i + 2] & 0x01) !== 0
+			instances.push(instance)
+		}
+
+		for (const instance of instances) {
+			instance.label = await this.queryDaliInstanceLabel(instance, false, options)
+			instance.fittingNumber = await this.queryDaliInstanceFittingNumber(instance, options)
+		}
+		return instances
+	}
+
+	/** Query a DALI address (ECG or ECD) for its operating mode. Returns the operating mode, or `null` if query fails. */
+	async queryOperatingModeByAddress(address: ZenAddress, options: ZenRequestOptions = {}): Promise<number | null> {
+		return this.sendBasicFrame(address.controller, 'QUERY_OPERATING_MODE_BY_ADDRESS', address.ecgOrEcd(), [], 'int', options)
+	}
+
+	/**
+	 * Set a DALI address (ECG, group, broadcast) to a colour. Returns `true` if command succeeded, `false` otherwise.
+	 *
+	 * With the `adapt` option the colour is first adapted to the target's colour capabilities, see `adaptColour`.
+	 * @throws ZenColourUnsupportedError if adapting and the colour can't be shown by the target
+	 */
+	async daliColour(address: ZenAddress, colour: ZenColour, level = 255, options: ZenColourCommandOptions = {}): Promise<boolean> {
+		const send = async (signal = options.signal) => {
+			if (options.adapt) {
+				const capabilities = await this.queryColourCapabilities(address, { ...options, signal })
+				colour = adaptColour(colour, capabilities)
+			}
+			return this.sendColour(address.controller, 'DALI_COLOUR', address.ecgOrGroupOrBroadcast(), colour, level, { ...options, signal })
+		}
+
+		if (!this.coalesce) {
+			return send()
+		}
+		return this._coalesce(address.controller, 'DALI_COLOUR', address.ecgOrGroupOrBroadcast(), send, options.signal)
+	}
+
+	/**
+	 * Compound command to query the colour capabilities of a DALI address (ECG, group, broadcast). A group or broadcast
+	 * supports the colour features of any of its members, within the colour temperature limits that all of its members
+	 * support. Results are cached per address, see `clearColourCapabilitiesCache`.
+	 */
+	async queryColourCapabilities(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenColourCapabilities> {
+		const key = `${address.controller.id}.${address.ecgOrGroupOrBroadcast()}`
+		const cached = this.colourCapabilitiesCache.get(key)
+		if (cached) {
+			return cached
+		}
+
+		let result: ZenColourCapabilities
+		if (address.type === ZenAddressType.ECG) {
+			const features = await this.queryDaliColourFeatures(address, options)
+			const tempLimits = features.supportsTunable ? await this.queryDaliColourTempLimits(address, options) : null
+			result = { features, tempLimits }
+		} else {
+			const members: ZenColourCapabilities[] = []
+			for (const gear of await this.queryControlGearDaliAddresses(address.controller, options)) {
+				if (address.type === ZenAddressType.GROUP) {
+					const groups = await this.queryGroupMembershipByAddress(gear, options)
+					if (!groups.find(group => group.target === address.target)) {
+						continue
+					}
+				}
+				members.push(await this.queryColourCapabilities(gear, options))
+			}
+			result = combineColourCapabilities(members)
+		}
+
+		this.colourCapabilitiesCache.set(key, result)
+		return result
+	}
 
-	/** Set a DALI address (ECG, group, broadcast) to a colour. Returns `true` if command succeeded, `false` otherwise. */
-	async daliColour(address: ZenAddress, colour: ZenColour, level = 255): Promise<boolean> {
-		return this.sendColour(address.controller, 'DALI_COLOUR', address.ecgOrGroupOrBroadcast(), colour, level)
+	/** Clear cached colour capabilities for an address, for a controller, or for all controllers. */
+	clearColourCapabilitiesCache(target?: ZenAddress | ZenController): void {
+		if (!target) {
+			this.colourCapabilitiesCache.clear()
+			return
+		}
+
+		const prefix = target instanceof ZenAddress ? `${target.controller.id}.${target.ecgOrGroupOrBroadcast()}` : `${target.id}.`
+		for (const key of [...this.colourCapabilitiesCache.keys()]) {
+			if (target instanceof ZenAddress ? key === prefix : key.startsWith(prefix)) {
+				this.colourCapabilitiesCache.delete(key)
+			}
+		}
 	}
 
 	/** Query a DALI group for its occupancy status and level. Returns a tuple containing group number, occupancy status, and actual level.
 	 * Returns `null` if the group is empty.
 	*/
-	async queryGroupByNumber(address: ZenAddress): Promise<{ group: number; occupancy: boolean; level: number} | null> {
-		const result = await this.sendBasicFrame(address.controller, 'QUERY_GROUP_BY_NUMBER', address.group(), [], 'bytes')
+	async queryGroupByNumber(address: ZenAddress, options: ZenRequestOptions = {}): Promise<{ group: number; occupancy: boolean; level: number} | null> {
+		const result = await this.sendBasicFrame(address.controller, 'QUERY_GROUP_BY_NUMBER', address.group(), [], 'bytes', options)
 		if (result) {
 			if (result.length === 3) {
 				return {
@@ -744,46 +1306,70 @@ export class ZenProtocol {
 		}
 	}
 
-	// def query_scene_numbers_by_address(self, address: ZenAddress) -> Optional[list[int]]:
-	//     """Query a DALI address (ECG) for associated scenes. Returns a list of scene numbers where levels have been set."""
-	//     return self._send_basic(address.controller, self.CMD["QUERY_SCENE_NUMBERS_BY_ADDRESS"], address.ecg(), return_type='list')
+	/** Query a DALI address (ECG) for associated scenes. Returns a list of scene numbers where levels have been set. */
+	async querySceneNumbersByAddress(address: ZenAddress, options: ZenRequestOptions = {}): Promise<number[]> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_SCENE_NUMBERS_BY_ADDRESS', address.ecg(), [], 'list', options)
+		return response ? response.sort((a, b) => a - b) : []
+	}
+
+	/** Query a DALI address (ECG) for its DALI scene levels. Returns a list of 12 scene levels (0-254), where `null` indicates the address isn't part of the scene. */
+	async querySceneLevelsByAddress(address: ZenAddress, options: ZenRequestOptions = {}): Promise<(number | null)[]> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_SCENE_LEVELS_BY_ADDRESS', address.ecg(), [], 'list', options)
+		const result: (number | null)[] = []
+		for (let scene = 0; scene < ZenConst.MAX_SCENE; scene++) {
+			const level = response?.[scene]
+			result.push(level === undefined || level === 255 ? null : level)
+		}
+		return result
+	}
 
-	// def query_scene_levels_by_address(self, address: ZenAddress) -> list[Optional[int]]:
-	//     """Query a DALI address (ECG) for its DALI scene levels. Returns a list of 16 scene level values (0-254, or None if not part of scene)."""
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_SCENE_LEVELS_BY_ADDRESS"], address.ecg(), return_type='list')
-	//     if response:
-	//         return [None if x == 255 else x for x in response]
-	//     return [None] * Const.MAX_SCENE
+	/** Query a DALI address (ECG) for which scenes have colour change data. Returns a list of scene numbers. */
+	async queryColourSceneMembershipByAddress(address: ZenAddress, options: ZenRequestOptions = {}): Promise<number[]> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_COLOUR_SCENE_MEMBERSHIP_BY_ADDR', address.ecg(), [], 'list', options)
+		return response ? response.sort((a, b) => a - b) : []
+	}
 
-	// def query_colour_scene_membership_by_address(self, address: ZenAddress) -> list[int]:
-	//     """Query a DALI address (ECG) for which scenes have colour change data. Returns a list of scene numbers."""
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_COLOUR_SCENE_MEMBERSHIP_BY_ADDR"], address.ecg(), return_type='list')
-	//     if response:
-	//         return response
-	//     return None
+	/** Query a DALI address (ECG) for its colour scene data. Returns a list of 12 scene colours, where `null` indicates the scene has no colour data. */
+	async querySceneColoursByAddress(address: ZenAddress, options: ZenRequestOptions = {}): Promise<(ZenColour | null)[]> {
+		const result: (ZenColour | null)[] = new Array(ZenConst.MAX_SCENE).fill(null)
 
-	// def query_scene_colours_by_address(self, address: ZenAddress) -> list[Optional[ZenColour]]:
-	//     """Query a DALI address (ECG) for its colour scene data. Returns a list of 16 scene level values (0-254, or None if not part of scene)."""
-	//     # Create a list of 12 ZenColour instances
-	//     output: list[Optional[ZenColour]] = [None] * Const.MAX_SCENE
-	//     # Queries
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_COLOUR_SCENE_0_7_DATA_FOR_ADDR"], address.ecg())
-	//     if response is None:
-	//         return output
-	//     response += self._send_basic(address.controller, self.CMD["QUERY_COLOUR_SCENE_8_11_DATA_FOR_ADDR"], address.ecg())
-	//     # Combined result should always be exactly 7*12 = 84 bytes
-	//     if len(response) != 84:
-	//         print(f"Warning: QUERY_COLOUR_SCENE_***_DATA_FOR_ADDR returned {len(response)} bytes, expected 84")
-	//         return output
-	//     # Data is in 7 byte segments
-	//     for i in range(0, Const.MAX_SCENE):
-	//         offset = i*7
-	//         output[i] = ZenColour.from_bytes(response[offset:offset+7])
-	//     return output
+		const scenes = await this.queryColourSceneMembershipByAddress(address, options)
+		if (!scenes.length) {
+			return result
+		}
+
+		const response0 = await this.sendBasicFrame(address.controller, 'QUERY_COLOUR_SCENE_0_7_DATA_FOR_ADDR', address.ecg(), [], 'bytes', options)
+		if (!response0) {
+			return result
+		}
+		const response8 = await this.sendBasicFrame(address.controller, 'QUERY_COLOUR_SCENE_8_11_DATA_FOR_ADDR', address.ecg(), [], 'bytes', options)
+
+		// Combined result should always be exactly 7 * 12 = 84 bytes
+		const response = Buffer.concat([response0, response8 ?? Buffer.of()])
+		if (response.length !== 7 * ZenConst.MAX_SCENE) {
+			throw new ZenResponseError(`Unexpected response for QUERY_COLOUR_SCENE_*_DATA_FOR_ADDR: ${response.length}`)
+		}
+
+		// Data is in 7 byte segments
+		for (const scene of scenes) {
+			if (scene >= 0 && scene < ZenConst.MAX_SCENE) {
+				result[scene] = ZenColour.fromBytes(response.subarray(scene * 7, scene * 7 + 7))
+			}
+		}
+		return result
+	}
+
+	/** Compound command to query a DALI address (ECG) for all of its scenes. Returns a list of 12 scenes with the level and colour for each. */
+	async queryScenesByAddress(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenAddressScene[]> {
+		options = discoveryOptions(options)
+		const levels = await this.querySceneLevelsByAddress(address, options)
+		const colours = await this.querySceneColoursByAddress(address, options)
+		return levels.map((level, scene) => ({ scene, level, colour: colours[scene] }))
+	}
 
 	/** Query an address (ECG) for which DALI groups it belongs to. Returns a list of ZenAddress group instances. */
-	async queryGroupMembershipByAddress(address: ZenAddress): Promise<ZenAddress[]> {
-		const response = await this.sendBasicFrame(address.controller, 'QUERY_GROUP_MEMBERSHIP_BY_ADDRESS', address.ecg(), [], 'bytes')
+	async queryGroupMembershipByAddress(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenAddress[]> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_GROUP_MEMBERSHIP_BY_ADDRESS', address.ecg(), [], 'bytes', options)
 		if (!response || response.length !== 2) {
 			throw new ZenResponseError(`Unexpected response for QUERY_GROUP_MEMBERSHIP_BY_ADDRESS: ${response?.length}`)
 		}
@@ -807,35 +1393,43 @@ export class ZenProtocol {
 		return groups.sort().map(group => new ZenAddress(address.controller, ZenAddressType.GROUP, group))
 	}
 
-	// def query_dali_addresses_with_instances(self, controller: ZenController, start_address: int=0) -> list[ZenAddress]: # TODO: automate iteration over start_address=0, start_address=60, etc.
-	//     """Query for DALI addresses that have instances associated with them.
-    
-	//     Due to payload restrictions, this needs to be called multiple times with different
-	//     start addresses to check all possible devices (e.g. start_address=0, then start_address=60)
-    
-	//     Args:
-	//         controller: ZenController instance
-	//         start_address: Starting DALI address to begin searching from (0-127)
-        
-	//     Returns:
-	//         List of DALI addresses that have instances, or None if query fails
-	//     """
-	//     addresses = self._send_basic(controller, self.CMD["QUERY_DALI_ADDRESSES_WITH_INSTANCES"], 0, [0,0,start_address], return_type='list')
-	//     if not addresses:
-	//         return []
-	//     zen_addresses = []
-	//     for number in addresses:
-	//         if 64 <= number <= 127:  # Only process valid device addresses (64-127)
-	//             zen_addresses.append(ZenAddress(
-	//                 controller=controller,
-	//                 type=ZenAddressType.ECD,
-	//                 number=number-64 # subtract 64 to get actual DALI device address
-	//             ))
-	//     return zen_addresses
+	/**
+	 * Query for DALI addresses (ECD) that have instances associated with them. Returns a list of ZenAddress instances.
+	 *
+	 * Due to payload restrictions the controller returns at most 60 addresses per response, so this queries repeatedly
+	 * until all addresses have been returned.
+	 */
+	async queryDaliAddressesWithInstances(controller: ZenController, options: ZenRequestOptions = {}): Promise<ZenAddress[]> {
+		options = discoveryOptions(options)
+		const result: ZenAddress[] = []
+
+		let startAddress = 0
+		while (startAddress < 128) {
+			const addresses = await this.sendBasicFrame(controller, 'QUERY_DALI_ADDRESSES_WITH_INSTANCES', 0, [0, 0, startAddress], 'list', options)
+			if (!addresses || !addresses.length) {
+				break
+			}
+
+			for (const number of addresses) {
+				// Only process valid device addresses (64-127)
+				if (number >= 64 && number <= 127) {
+					result.push(new ZenAddress(controller, ZenAddressType.ECD, number - 64))
+				}
+			}
+
+			const lastAddress = Math.max(...addresses)
+			if (addresses.length < ADDRESSES_WITH_INSTANCES_PER_PAGE || lastAddress < startAddress) {
+				break
+			}
+			startAddress = lastAddress + 1
+		}
+
+		return result
+	}
 
 	/** Query which DALI scenes are associated with a given group number. Returns list of scene numbers. */
-	async querySceneNumbersForGroup(group: ZenAddress): Promise<number[]> {
-		const response = await this.sendBasicFrame(group.controller, 'QUERY_SCENE_NUMBERS_FOR_GROUP', group.group(), [], 'bytes')
+	async querySceneNumbersForGroup(group: ZenAddress, options: ZenRequestOptions = {}): Promise<number[]> {
+		const response = await this.sendBasicFrame(group.controller, 'QUERY_SCENE_NUMBERS_FOR_GROUP', group.group(), [], 'bytes', options)
 		if (!response || response.length !== 2) {
 			throw new ZenResponseError(`Unexpected response for QUERY_SCENE_NUMBERS_FOR_GROUP: ${response?.length}`)
 		}
@@ -859,12 +1453,12 @@ export class ZenProtocol {
 	}
 
 	/** Query the label for a scene (0-11) and group number combination. Returns string, or `null` if no label is set. */
-	async querySceneLabelForGroup(group: ZenAddress, scene: number, genericIfNone = false): Promise<string | null> {
+	async querySceneLabelForGroup(group: ZenAddress, scene: number, genericIfNone = false, options: ZenRequestOptions = {}): Promise<string | null> {
 		if (scene < 0 || scene > ZenConst.MAX_SCENE) {
 			throw new Error(`Scene must be between 0 and ${ZenConst.MAX_SCENE}`)
 		}
 
-		const label = await this.sendBasicFrame(group.controller, 'QUERY_SCENE_LABEL_FOR_GROUP', group.group(), [scene], 'str')
+		const label = await this.sendBasicFrame(group.controller, 'QUERY_SCENE_LABEL_FOR_GROUP', group.group(), [scene], 'str', options)
 		if (label) {
 			return label
 		} else if (genericIfNone) {
@@ -875,23 +1469,56 @@ export class ZenProtocol {
 	}
 
 	/** Compound command to query the labels for all scenes for a group. Returns list of scene labels, where `null` indicates no label is set. */
-	async queryScenesForGroup(group: ZenAddress, genericIfNone = false): Promise<ZenScene[] | null> {
-		const scenes = await this.querySceneNumbersForGroup(group)
+	async queryScenesForGroup(group: ZenAddress, genericIfNone = false, options: ZenRequestOptions = {}): Promise<ZenScene[] | null> {
+		options = discoveryOptions(options)
+		const scenes = await this.querySceneNumbersForGroup(group, options)
 		if (!scenes) {
 			return null
 		}
 
 		const result: ZenScene[] = []
 		for (const scene of scenes) {
-			const label = await this.querySceneLabelForGroup(group, scene, genericIfNone)
+			const label = await this.querySceneLabelForGroup(group, scene, genericIfNone, options)
 			result.push(new ZenScene(group, scene, label))
 		}
 		return result
 	}
 
+	/**
+	 * Compound command to query the scene programming of every group on a controller. Returns a scene × fixture matrix for
+	 * each group, including the scene labels.
+	 */
+	async queryGroupSceneMatrices(controller: ZenController, genericIfNone = false, options: ZenRequestOptions = {}): Promise<ZenGroupSceneMatrix[]> {
+		options = discoveryOptions(options)
+		const fixtures: { address: ZenAddress, groups: ZenAddress[], scenes: ZenAddressScene[] }[] = []
+		for (const address of await this.queryControlGearDaliAddresses(controller, options)) {
+			fixtures.push({
+				address,
+				groups: await this.queryGroupMembershipByAddress(address, options),
+				scenes: await this.queryScenesByAddress(address, options),
+			})
+		}
+
+		const result: ZenGroupSceneMatrix[] = []
+		for (const group of await this.queryGroupNumbers(controller, options)) {
+			const scenes = await this.queryScenesForGroup(group, genericIfNone, options) ?? []
+			result.push({
+				group,
+				scenes,
+				fixtures: fixtures
+					.filter(fixture => fixture.groups.find(candidate => candidate.target === group.target))
+					.map(fixture => ({
+						address: fixture.address,
+						scenes: scenes.map(scene => fixture.scenes[scene.scene] ?? { scene: scene.scene, level: null, colour: null }),
+					})),
+			})
+		}
+		return result
+	}
+
 	/** Query the controller's version number. */
-	async queryControllerVersionNumber(controller: ZenController): Promise<string> {
-		const response = await this.sendBasicFrame(controller, 'QUERY_CONTROLLER_VERSION_NUMBER', 0, [], 'bytes')
+	async queryControllerVersionNumber(controller: ZenController, options: ZenRequestOptions = {}): Promise<string> {
+		const response = await this.sendBasicFrame(controller, 'QUERY_CONTROLLER_VERSION_NUMBER', 0, [], 'bytes', options)
 		if (response && response.length === 3) {
 			return `${response[0]}.${response[1]}.${response[2]}`
 		} else {
@@ -900,8 +1527,8 @@ export class ZenProtocol {
 	}
 
 	/** Query which DALI control gear addresses are present in the database. Returns a list of ZenAddress instances. */
-	async queryControlGearDaliAddresses(controller: ZenController): Promise<ZenAddress[]> {
-		const response = await this.sendBasicFrame(controller, 'QUERY_CONTROL_GEAR_DALI_ADDRESSES', 0, [], 'bytes')
+	async queryControlGearDaliAddresses(controller: ZenController, options: ZenRequestOptions = {}): Promise<ZenAddress[]> {
+		const response = await this.sendBasicFrame(controller, 'QUERY_CONTROL_GEAR_DALI_ADDRESSES', 0, [], 'bytes', options)
 		if (!response || response.length !== 8) {
 			throw new ZenResponseError(`Unexpected response for QUERY_CONTROL_GEAR_DALI_ADDRESSES: ${response?.length}`)
 		}
@@ -925,63 +1552,166 @@ export class ZenProtocol {
 	}
 
 	/** Inhibit sensors from changing a DALI address (ECG or group or broadcast) for specified time in seconds (0-65535). Returns `true` if acknowledged, else `false`. */
-	async daliInhibit(address: ZenAddress, timeSeconds: number): Promise<boolean> {
+	async daliInhibit(address: ZenAddress, timeSeconds: number, options: ZenRequestOptions = {}): Promise<boolean> {
 		const timeHi = (timeSeconds >> 8) & 0xff // Convert time to 16-bit value
 		const timeLo = (timeSeconds & 0xff)
-		return !!await this.sendBasicFrame(address.controller, 'DALI_INHIBIT', address.ecgOrGroupOrBroadcast(), [0x00, timeHi, timeLo], 'ok')
+		return !!await this.sendBasicFrame(address.controller, 'DALI_INHIBIT', address.ecgOrGroupOrBroadcast(), [0x00, timeHi, timeLo], 'ok', options)
 	}
 
 	/** Send RECALL SCENE (0-11) to an address (ECG or group or broadcast). Returns `true` if acknowledged, else `false`. */
-	async daliScene(address: ZenAddress, scene: number): Promise<boolean> {
+	async daliScene(address: ZenAddress, scene: number, options: ZenRequestOptions = {}): Promise<boolean> {
 		if (scene < 0 || scene > ZenConst.MAX_SCENE) {
 			throw new Error(`Scene must be between 0 and ${ZenConst.MAX_SCENE}`)
 		}
 
-		return !!await this.sendBasicFrame(address.controller, 'DALI_SCENE', address.ecgOrGroupOrBroadcast(), [0x00, 0x00, scene], 'ok')
+		return !!await this.sendBasicFrame(address.controller, 'DALI_SCENE', address.ecgOrGroupOrBroadcast(), [0x00, 0x00, scene], 'ok', options)
 	}
 
 	/** Send DIRECT ARC level (0-254) to an address (ECG or group or broadcast). Will fade to the new level. Returns `true` if acknowledged, else `false`. */
-	async daliArcLevel(address: ZenAddress, level: number): Promise<boolean> {
+	async daliArcLevel(address: ZenAddress, level: number, options: ZenRequestOptions = {}): Promise<boolean> {
 		if (level < 0 || level > ZenConst.MAX_LEVEL) {
 			throw new Error(`Level must be between 0 and ${ZenConst.MAX_LEVEL}, got ${level}`)
 		}
-		return !!await this.sendBasicFrame(address.controller, 'DALI_ARC_LEVEL', address.ecgOrGroupOrBroadcast(), [0x00, 0x00, level], 'ok')
+
+		if (!this.coalesce) {
+			return !!await this.sendBasicFrame(address.controller, 'DALI_ARC_LEVEL', address.ecgOrGroupOrBroadcast(), [0x00, 0x00, level], 'ok', options)
+		}
+		return this._coalesce(address.controller, 'DALI_ARC_LEVEL', address.ecgOrGroupOrBroadcast(), signal => this._sendCoalescedArcLevel(address, level, { ...options, signal }), options.signal)
+	}
+
+	private async _sendCoalescedArcLevel(address: ZenAddress, level: number, options: ZenRequestOptions): Promise<boolean> {
+		const target = address.ecgOrGroupOrBroadcast()
+		if (this.coalesce !== 'dapc') {
+			return !!await this.sendBasicFrame(address.controller, 'DALI_ARC_LEVEL', target, [0x00, 0x00, level], 'ok', options)
+		}
+
+		/* Levels that follow closely after another are part of a stream, so are sent in a DAPC sequence */
+		const key = `${address.controller.id}.${target}`
+		const sequence = this.dapcSequences.get(key) ?? { lastLevel: 0, activeUntil: 0 }
+		this.dapcSequences.set(key, sequence)
+		if (Date.now() - sequence.lastLevel < ZenConst.DAPC_SEQUENCE_TIME && Date.now() >= sequence.activeUntil) {
+			if (await this.daliEnableDAPCSequence(address, options)) {
+				sequence.activeUntil = Date.now() + ZenConst.DAPC_SEQUENCE_TIME
+			}
+		}
+
+		const result = !!await this.sendBasicFrame(address.controller, 'DALI_ARC_LEVEL', target, [0x00, 0x00, level], 'ok', options)
+		sequence.lastLevel = Date.now()
+		if (sequence.activeUntil > sequence.lastLevel) {
+			/* Each level in the sequence extends it */
+			sequence.activeUntil = sequence.lastLevel + ZenConst.DAPC_SEQUENCE_TIME
+		}
+		return result
 	}
 
-	// def dali_on_step_up(self, address: ZenAddress) -> bool:
-	//     """Send ON AND STEP UP to an address (ECG or group or broadcast). If a device is off, it will turn it on. If a device is on, it will step up. No fade."""
-	//     return self._send_basic(address.controller, self.CMD["DALI_ON_STEP_UP"], address.ecg_or_group_or_broadcast(), return_type='ok')
+	/**
+	 * Send a command, or if a command to the same target is being sent, send it once that command finishes. A command that
+	 * is still waiting when a newer one arrives is replaced, and its caller receives the newer command's result.
+	 *
+	 * A caller that aborts is rejected on its own; the command is only cancelled once every caller waiting for it has
+	 * aborted, so `send` is given a signal for that rather than any one caller's signal.
+	 */
+	private _coalesce(controller: ZenController, command: ZenCommand, target: number, send: (signal: AbortSignal) => Promise<boolean>, signal?: AbortSignal): Promise<boolean> {
+		if (signal?.aborted) {
+			return Promise.reject(requestAborted(controller, command))
+		}
 
-	// def dali_step_down_off(self, address: ZenAddress) -> bool:
-	//     """Send STEP DOWN AND OFF to an address (ECG or group or broadcast). If a device is at min, it will turn off. If a device isn't yet at min, it will step down. No fade."""
-	//     return self._send_basic(address.controller, self.CMD["DALI_STEP_DOWN_OFF"], address.ecg_or_group_or_broadcast(), return_type='ok')
+		const key = `${controller.id}.${command}.${target}`
+		const existing = this.coalescedCommands.get(key)
+		const batch: ZenCoalescedBatch = existing?.next ?? { send, waiters: [], abort: new AbortController() }
+		batch.send = send
+
+		const result = new Promise<boolean>((resolve, reject) => {
+			const waiter: ZenCoalescedWaiter = { resolve, reject }
+			batch.waiters.push(waiter)
+			if (signal) {
+				const onAbort = () => {
+					batch.waiters.splice(batch.waiters.indexOf(waiter), 1)
+					reject(requestAborted(controller, command))
+					if (!batch.waiters.length) {
+						batch.abort.abort()
+					}
+				}
+				signal.addEventListener('abort', onAbort, { once: true })
+				waiter.done = () => signal.removeEventListener('abort', onAbort)
+			}
+		})
 
-	// def dali_up(self, address: ZenAddress) -> bool:
-	//     """Send DALI UP to an address (ECG or group or broadcast). Will fade to the new level. Returns `true` if acknowledged, else `false`."""
-	//     return self._send_basic(address.controller, self.CMD["DALI_UP"], address.ecg_or_group_or_broadcast(), return_type='ok')
+		if (existing) {
+			existing.next = batch
+		} else {
+			this.coalescedCommands.set(key, {})
+			this._sendCoalesced(key, batch)
+		}
+		return result
+	}
 
-	// def dali_down(self, address: ZenAddress) -> bool:
-	//     """Send DALI DOWN to an address (ECG or group or broadcast). Will fade to the new level. Returns `true` if acknowledged, else `false`."""
-	//     return self._send_basic(address.controller, self.CMD["DALI_DOWN"], address.ecg_or_group_or_broadcast(), return_type='ok')
+	/** Send a coalesced command and settle its callers, then send the command that replaced it while it was being sent, if any. */
+	private async _sendCoalesced(key: string, batch: ZenCoalescedBatch): Promise<void> {
+		try {
+			// Skip the command if every caller aborted while it was waiting
+			if (!batch.abort.signal.aborted) {
+				const result = await batch.send(batch.abort.signal)
+				for (const waiter of batch.waiters) {
+					waiter.done?.()
+					waiter.resolve(result)
+				}
+			}
+		} catch (error) {
+			for (const waiter of batch.waiters) {
+				waiter.done?.()
+				waiter.reject(error)
+			}
+		} finally {
+			const entry = this.coalescedCommands.get(key)
+			const next = entry?.next
+			if (entry && next) {
+				entry.next = undefined
+				this._sendCoalesced(key, next)
+			} else {
+				this.coalescedCommands.delete(key)
+			}
+		}
+	}
+
+	/** Send ON AND STEP UP to an address (ECG or group or broadcast). If a device is off, it will turn it on. If a device is on, it will step up. No fade. Returns `true` if acknowledged, else `false`. */
+	async daliOnStepUp(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_ON_STEP_UP', address.ecgOrGroupOrBroadcast(), [], 'ok', options)
+	}
+
+	/** Send STEP DOWN AND OFF to an address (ECG or group or broadcast). If a device is at min, it will turn off. If a device isn't yet at min, it will step down. No fade. Returns `true` if acknowledged, else `false`. */
+	async daliStepDownOff(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_STEP_DOWN_OFF', address.ecgOrGroupOrBroadcast(), [], 'ok', options)
+	}
+
+	/** Send DALI UP to an address (ECG or group or broadcast). Will fade to the new level. Returns `true` if acknowledged, else `false`. */
+	async daliUp(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_UP', address.ecgOrGroupOrBroadcast(), [], 'ok', options)
+	}
+
+	/** Send DALI DOWN to an address (ECG or group or broadcast). Will fade to the new level. Returns `true` if acknowledged, else `false`. */
+	async daliDown(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_DOWN', address.ecgOrGroupOrBroadcast(), [], 'ok', options)
+	}
 
 	/** Send RECALL MAX to an address (ECG or group or broadcast). No fade. Returns `true` if acknowledged, else `false`. */
-	async daliRecallMax(address: ZenAddress): Promise<boolean> {
-		return !!await this.sendBasicFrame(address.controller, 'DALI_RECALL_MAX', address.ecgOrGroupOrBroadcast(), [], 'ok')
+	async daliRecallMax(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_RECALL_MAX', address.ecgOrGroupOrBroadcast(), [], 'ok', options)
 	}
 
 	/** Send RECALL MIN to an address (ECG or group or broadcast). No fade. Returns `true` if acknowledged, else `false`. */
-	async daliRecallMin(address: ZenAddress): Promise<boolean> {
-		return !!await this.sendBasicFrame(address.controller, 'DALI_RECALL_MIN', address.ecgOrGroupOrBroadcast(), [], 'ok')
+	async daliRecallMin(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_RECALL_MIN', address.ecgOrGroupOrBroadcast(), [], 'ok', options)
 	}
 
 	/** Send OFF to an address (ECG or group or broadcast). No fade. Returns `true` if acknowledged, else `false`. */
-	async daliOff(address: ZenAddress): Promise<boolean> {
-		return !!await this.sendBasicFrame(address.controller, 'DALI_OFF', address.ecgOrGroupOrBroadcast(), [], 'ok')
+	async daliOff(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_OFF', address.ecgOrGroupOrBroadcast(), [], 'ok', options)
 	}
 
 	/** Query the Arc Level for a DALI address (ECG or group). Returns arc level as int, or `null` if mixed levels. */
-	async daliQueryLevel(address: ZenAddress): Promise<number | null> {
-		const result = await this.sendBasicFrame(address.controller, 'DALI_QUERY_LEVEL', address.ecgOrGroup(), [], 'int')
+	async daliQueryLevel(address: ZenAddress, options: ZenRequestOptions = {}): Promise<number | null> {
+		const result = await this.sendBasicFrame(address.controller, 'DALI_QUERY_LEVEL', address.ecgOrGroup(), [], 'int', options)
 		if (result === 255) {
 			return null // 255 indicates mixed levels
 		} else {
@@ -989,21 +1719,14 @@ export class ZenProtocol {
 		}
 	}
 
-	// def dali_query_control_gear_status(self, address: ZenAddress) -> Optional[dict]:
-	//     """Query the Status for a DALI address (ECG or group or broadcast). Returns a dictionary of status flags."""
-	//     response = self._send_basic(address.controller, self.CMD["DALI_QUERY_CONTROL_GEAR_STATUS"], address.ecg_or_group_or_broadcast())
-	//     if response and len(response) == 1:
-	//         return {
-	//             "cg_failure": bool(response[0] & 0x01),
-	//             "lamp_failure": bool(response[0] & 0x02),
-	//             "lamp_power_on": bool(response[0] & 0x04),
-	//             "limit_error": bool(response[0] & 0x08), # (an Arc-level > Max or < Min requested)
-	//             "fade_running": bool(response[0] & 0x10),
-	//             "reset": bool(response[0] & 0x20),
-	//             "missing_short_address": bool(response[0] & 0x40),
-	//             "power_failure": bool(response[0] & 0x80)
-	//         }
-	//     return None
+	/** Query the status of a DALI address (ECG or group or broadcast). Returns the decoded status, or `null` if query fails. */
+	async queryControlGearStatus(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenControlGearStatus | null> {
+		const response = await this.sendBasicFrame(address.controller, 'DALI_QUERY_CONTROL_GEAR_STATUS', address.ecgOrGroupOrBroadcast(), [], 'int', options)
+		if (response === null) {
+			return null
+		}
+		return ZenControlGearStatus.fromByte(response)
+	}
 
 	/**
 	 * Query device type information for a DALI address (ECG).
@@ -1011,8 +1734,8 @@ export class ZenProtocol {
 	 * Returns an array of device types that the control gear belongs to, or an empty array if the device
 	 * doesn't exist.
 	 */
-	async daliQueryCgType(address: ZenAddress): Promise<ZenControlGearType[]> {
-		const response = await this.sendBasicFrame(address.controller, 'DALI_QUERY_CG_TYPE', address.ecg(), [], 'bytes')
+	async daliQueryCgType(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenControlGearType[]> {
+		const response = await this.sendBasicFrame(address.controller, 'DALI_QUERY_CG_TYPE', address.ecg(), [], 'bytes', options)
 		if (!response || response.length !== 4) {
 			throw new ZenResponseError(`Unexpected response for DALI_QUERY_CG_TYPE: ${response?.length}`)
 		}
@@ -1069,23 +1792,25 @@ export class ZenProtocol {
 	 * 
 	 * Returns `true` if successful, `false` if failed.
 	 */
-	async daliEnableDAPCSequence(address: ZenAddress): Promise<boolean> {
-		return !!await this.sendBasicFrame(address.controller, 'DALI_ENABLE_DAPC_SEQ', address.ecgOrGroupOrBroadcast(), [], 'bool')
+	async daliEnableDAPCSequence(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_ENABLE_DAPC_SEQ', address.ecgOrGroupOrBroadcast(), [], 'bool', options)
 	}
 
-	// def query_dali_ean(self, address: ZenAddress) -> Optional[int]:
-	//     """Query a DALI address (ECG or ECD) for its European Article Number (EAN/GTIN). Returns an integer if successful, None if query fails."""
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_DALI_EAN"], address.ecg_or_ecd())
-	//     if response and len(response) == 6:
-	//         ean = 0
-	//         for byte in response:
-	//             ean = (ean << 8) | byte
-	//         return ean
-	//     return None
+	/** Query a DALI address (ECG or ECD) for its European Article Number (EAN/GTIN). Returns the GTIN, or `null` if query fails. */
+	async queryDaliEan(address: ZenAddress, options: ZenRequestOptions = {}): Promise<number | null> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_DALI_EAN', address.ecgOrEcd(), [], 'bytes', options)
+		if (!response) {
+			return null
+		}
+		if (response.length !== 6) {
+			throw new ZenResponseError(`Unexpected response for QUERY_DALI_EAN: ${response.length}`)
+		}
+		return response.readUIntBE(0, 6)
+	}
 
 	/** Query a DALI address (ECG or ECD) for its Serial Number. Returns a hex string representation of the serial number. */
-	async queryDaliSerial(address: ZenAddress): Promise<string> {
-		const response = await this.sendBasicFrame(address.controller, 'QUERY_DALI_SERIAL', address.ecgOrEcd(), [], 'bytes')
+	async queryDaliSerial(address: ZenAddress, options: ZenRequestOptions = {}): Promise<string> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_DALI_SERIAL', address.ecgOrEcd(), [], 'bytes', options)
 		if (!response || response.length !== 8) {
 			throw new ZenResponseError(`Unexpected response for QUERY_DALI_SERIAL: ${response?.length}`)
 		}
@@ -1112,46 +1837,60 @@ export class ZenProtocol {
 	//         return serial
 	//     return None
 
-	// def dali_custom_fade(self, address: ZenAddress, level: int, seconds: int) -> bool:
-	//     """Fade a DALI address (ECG or group) to a level (0-254) with a custom fade time in seconds (0-65535). Returns `true` if successful, else `false`."""
-	//     if not 0 <= level < Const.MAX_LEVEL:
-	//         raise ValueError("Target level must be between 0 and 254")
-	//     if not 0 <= seconds <= 65535:
-	//         raise ValueError("Fade time must be between 0 and 65535 seconds")
+	/** Fade a DALI address (ECG or group) to a level (0-254) with a custom fade time in whole seconds (0-65535). Returns `true` if acknowledged, else `false`. */
+	async daliCustomFade(address: ZenAddress, level: number, seconds: number, options: ZenRequestOptions = {}): Promise<boolean> {
+		if (level < 0 || level > ZenConst.MAX_LEVEL) {
+			throw new Error(`Level must be between 0 and ${ZenConst.MAX_LEVEL}, got ${level}`)
+		}
+		if (!Number.isInteger(seconds) || seconds < 0 || seconds > 0xffff) {
+			throw new Error(`Fade time must be a whole number of seconds between 0 and 65535, got ${seconds}`)
+		}
 
-	//     # Convert fade time to integer seconds and split into high/low bytes
-	//     seconds_hi = (seconds >> 8) & 0xFF
-	//     seconds_lo = seconds & 0xFF
-    
-	//     return self._send_basic(
-	//         address.controller,
-	//         self.CMD["DALI_CUSTOM_FADE"],
-	//         address.ecg_or_group(),
-	//         [level, seconds_hi, seconds_lo],
-	//         return_type='ok'
-	//     )
+		// Split fade time into high/low bytes
+		const secondsHi = (seconds >> 8) & 0xff
+		const secondsLo = seconds & 0xff
+		return !!await this.sendBasicFrame(address.controller, 'DALI_CUSTOM_FADE', address.ecgOrGroup(), [level, secondsHi, secondsLo], 'ok', options)
+	}
 
-	// def dali_go_to_last_active_level(self, address: ZenAddress) -> bool:
-	//     """Command a DALI Address (ECG or group) to go to its "Last Active" level. Returns `true` if successful, else `false`."""
-	//     return self._send_basic(address.controller, self.CMD["DALI_GO_TO_LAST_ACTIVE_LEVEL"], address.ecg_or_group(), return_type='ok')
+	/** Command a DALI address (ECG or group) to go to its "Last Active" level. Returns `true` if acknowledged, else `false`. */
+	async daliGoToLastActiveLevel(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_GO_TO_LAST_ACTIVE_LEVEL', address.ecgOrGroup(), [], 'ok', options)
+	}
+
+	/** Query the label for a DALI Instance. Returns a string, or `null` if no label is set. */
+	async queryDaliInstanceLabel(instance: ZenInstance, genericIfNone = false, options: ZenRequestOptions = {}): Promise<string | null> {
+		const label = await this.sendBasicFrame(instance.address.controller, 'QUERY_DALI_INSTANCE_LABEL', instance.address.ecd(), [0x00, 0x00, instance.instance], 'str', options)
+		if (label) {
+			return label
+		} else if (genericIfNone) {
+			const typeName = ZenInstanceType[instance.type] ?? 'Instance'
+			return `${typeName.charAt(0)}${typeName.slice(1).toLowerCase().replaceAll('_', ' ')} ${instance.instance}`
+		} else {
+			return null
+		}
+	}
 
-	// def query_dali_instance_label(self, instance: ZenInstance, generic_if_none: bool=False) -> Optional[str]:
-	//     """Query the label for a DALI Instance. Returns a string, or None if not set. Optionally, returns a generic label if the instance label is not set."""
-	//     label = self._send_basic(instance.address.controller, self.CMD["QUERY_DALI_INSTANCE_LABEL"], instance.address.ecd(), [0x00, 0x00, instance.number], return_type='str', cacheable=True)
-	//     if label is None and generic_if_none:
-	//         label = instance.type.name.title().replace("_", " ")  + " " + str(instance.number)
-	//     return label
+	/**
+	 * Change the active profile number (0-65535). Returns `true` if successful, else `false`.
+	 *
+	 * The change is reported to `profileChangeCallback` when event monitoring is active.
+	 */
+	async changeProfileNumber(controller: ZenController, profile: number, options: ZenRequestOptions = {}): Promise<boolean> {
+		if (profile < 0 || profile > 0xffff) {
+			throw new Error(`Profile number must be between 0 and 65535, received ${profile}`)
+		}
 
-	// def change_profile_number(self, controller: ZenController, profile: int) -> bool:
-	//     """Change the active profile number (0-65535). Returns `true` if successful, else `false`."""
-	//     if not 0 <= profile <= 0xFFFF: raise ValueError("Profile number must be between 0 and 65535")
-	//     profile_hi = (profile >> 8) & 0xFF
-	//     profile_lo = profile & 0xFF
-	//     return self._send_basic(controller, self.CMD["CHANGE_PROFILE_NUMBER"], 0x00, [0x00, profile_hi, profile_lo], return_type='ok')
+		const profileHi = (profile >> 8) & 0xff
+		const profileLo = profile & 0xff
+		const result = !!await this.sendBasicFrame(controller, 'CHANGE_PROFILE_NUMBER', 0x00, [0x00, profileHi, profileLo], 'ok', options)
+		this.responseCache?.clear(controller, CACHE_INVALIDATIONS.profileChange?.controller)
+		return result
+	}
 
-	// def return_to_scheduled_profile(self, controller: ZenController) -> bool:
-	//     """Return to the scheduled profile. Returns `true` if successful, else `false`."""
-	//     return self.change_profile_number(controller, 0xFFFF) # See docs page 91, 0xFFFF returns to scheduled profile
+	/** Return to the scheduled profile. Returns `true` if successful, else `false`. */
+	async returnToScheduledProfile(controller: ZenController, options: ZenRequestOptions = {}): Promise<boolean> {
+		return this.changeProfileNumber(controller, ZEN_PROFILE_SCHEDULED, options)
+	}
 
 	// def query_instance_groups(self, instance: ZenInstance) -> Optional[tuple[int, int, int]]: # TODO: replace Tuple with dict
 	//     """Query the group targets associated with a DALI instance.
@@ -1182,36 +1921,130 @@ export class ZenProtocol {
 	//         )
 	//     return None
 
-	// def query_dali_fitting_number(self, address: ZenAddress) -> Optional[str]:
-	//     """Query a DALI address (ECG or ECD) for its fitting number. Returns the fitting number (e.g. '1.2') or a generic identifier if the address doesn't exist, or None if the query fails."""
-	//     return self._send_basic(address.controller, self.CMD["QUERY_DALI_FITTING_NUMBER"], address.ecg_or_ecd(), return_type='str', cacheable=True)
-    
-	// def query_dali_instance_fitting_number(self, instance: ZenInstance) -> Optional[str]:
-	//     """Query a DALI instance for its fitting number. Returns a string (e.g. '1.2.0') or None if query fails."""
-	//     return self._send_basic(instance.address.controller, self.CMD["QUERY_DALI_INSTANCE_FITTING_NUMBER"], instance.address.ecd(), [0x00, 0x00, instance.number], return_type='str')
-
-	// def query_controller_label(self, controller: ZenController) -> Optional[str]:
-	//     """Request the label for the controller. Returns the controller's label string, or None if query fails."""
-	//     return self._send_basic(controller, self.CMD["QUERY_CONTROLLER_LABEL"], return_type='str', cacheable=True)
-
-	// def query_controller_fitting_number(self, controller: ZenController) -> Optional[str]:
-	//     """Request the fitting number string for the controller itself. Returns the controller's fitting number (e.g. '1'), or None if query fails."""
-	//     return self._send_basic(controller, self.CMD["QUERY_CONTROLLER_FITTING_NUMBER"], return_type='str')
-
-	// def query_is_dali_ready(self, controller: ZenController) -> bool:
-	//     """Query whether the DALI line is ready or has a fault. Returns `true` if DALI line is ready, False if there is a fault."""
-	//     return self._send_basic(controller, self.CMD["QUERY_IS_DALI_READY"], return_type='ok')
-
-	// def query_controller_startup_complete(self, controller: ZenController) -> bool:
-	//     """Query whether the controller has finished its startup sequence. Returns `true` if startup is complete, False if still in progress.
-
-	//     The startup sequence performs DALI queries such as device type, current arc-level, GTIN, 
-	//     serial number, etc. The more devices on a DALI line, the longer startup will take to complete.
-	//     For a line with only a handful of devices, expect it to take approximately 1 minute.
-	//     Waiting for the startup sequence to complete is particularly important if you wish to 
-	//     perform queries about DALI.
-	//     """
-	//     return self._send_basic(controller, self.CMD["QUERY_CONTROLLER_STARTUP_COMPLETE"], return_type='ok')
+	/** Query a DALI address (ECG or ECD) for its fitting number. Returns the fitting number (e.g. '1.2'), or `null` if query fails. */
+	async queryDaliFittingNumber(address: ZenAddress, options: ZenRequestOptions = {}): Promise<string | null> {
+		return this.sendBasicFrame(address.controller, 'QUERY_DALI_FITTING_NUMBER', address.ecgOrEcd(), [], 'str', options)
+	}
+
+	/** Compound command to query the identifying information for a DALI address (ECG or ECD). */
+	async queryDeviceIdentity(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenDeviceIdentity> {
+		options = discoveryOptions(options)
+		return {
+			address,
+			label: await this.queryDaliDeviceLabel(address, false, options),
+			serial: await this.queryDaliSerial(address, options).catch((reason) => {
+				if (reason instanceof ZenResponseError) {
+					this.logger.warn(`Failed to query serial number of ${address}: ${reason.message}`)
+					return null
+				}
+				throw reason
+			}),
+			gtin: await this.queryDaliEan(address, options),
+			fittingNumber: await this.queryDaliFittingNumber(address, options),
+			operatingMode: await this.queryOperatingModeByAddress(address, options),
+			cgTypes: address.type === ZenAddressType.ECG ? await this.daliQueryCgType(address, options) : [],
+		}
+	}
+
+	/**
+	 * Compound command to query the identifying information for every control gear (ECG) and control device (ECD) on a controller.
+	 * Control devices are found by their instances, see `queryDaliAddressesWithInstances`.
+	 */
+	async queryDeviceIdentities(controller: ZenController, options: ZenRequestOptions = {}): Promise<ZenDeviceIdentity[]> {
+		options = discoveryOptions(options)
+		const addresses = [
+			...await this.queryControlGearDaliAddresses(controller, options),
+			...await this.queryDaliAddressesWithInstances(controller, options),
+		]
+
+		const result: ZenDeviceIdentity[] = []
+		for (const address of addresses) {
+			result.push(await this.queryDeviceIdentity(address, options))
+		}
+		return result
+	}
+
+	/** Query a DALI instance for its fitting number. Returns a string (e.g. '1.2.0'), or `null` if query fails. */
+	async queryDaliInstanceFittingNumber(instance: ZenInstance, options: ZenRequestOptions = {}): Promise<string | null> {
+		return this.sendBasicFrame(instance.address.controller, 'QUERY_DALI_INSTANCE_FITTING_NUMBER', instance.address.ecd(), [0x00, 0x00, instance.instance], 'str', options)
+	}
+
+	/** Query the label for the controller. Returns a string, or `null` if no label is set. */
+	async queryControllerLabel(controller: ZenController, options: ZenRequestOptions = {}): Promise<string | null> {
+		return this.sendBasicFrame(controller, 'QUERY_CONTROLLER_LABEL', 0, [], 'str', options)
+	}
+
+	/** Query the fitting number for the controller itself. Returns a string (e.g. '1'), or `null` if query fails. */
+	async queryControllerFittingNumber(controller: ZenController, options: ZenRequestOptions = {}): Promise<string | null> {
+		return this.sendBasicFrame(controller, 'QUERY_CONTROLLER_FITTING_NUMBER', 0, [], 'str', options)
+	}
+
+	/** Query whether the DALI bus is ready. Returns `true` if ready, or `false` if the bus has a fault. */
+	async queryIsDaliReady(controller: ZenController, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(controller, 'QUERY_IS_DALI_READY', 0, [], 'ok', options)
+	}
+
+	/**
+	 * Query whether the controller has finished its startup sequence. Returns `true` if startup is complete, or `false` if
+	 * still in progress.
+	 *
+	 * The startup sequence performs DALI queries such as device type, current arc level, GTIN, serial number, etc. The more
+	 * devices on a DALI bus, the longer startup will take to complete; for a bus with only a handful of devices expect it to
+	 * take approximately 1 minute. Wait for startup to complete before performing queries about DALI.
+	 */
+	async queryControllerStartupComplete(controller: ZenController, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(controller, 'QUERY_CONTROLLER_STARTUP_COMPLETE', 0, [], 'ok', options)
+	}
+
+	/** Query the version, label, fitting number and readiness of a controller. */
+	async queryControllerInfo(controller: ZenController, options: ZenRequestOptions = {}): Promise<ZenControllerInfo> {
+		return {
+			version: await this.queryControllerVersionNumber(controller, options),
+			label: await this.queryControllerLabel(controller, options),
+			fittingNumber: await this.queryControllerFittingNumber(controller, options),
+			daliReady: await this.queryIsDaliReady(controller, options),
+			startupComplete: await this.queryControllerStartupComplete(controller, options),
+		}
+	}
+
+	/**
+	 * Wait until a controller has finished its startup sequence and its DALI bus is ready, polling the controller until it
+	 * is. Failed polls, such as when the controller is still booting and doesn't respond, are retried.
+	 * @throws ZenTimeoutError if the controller isn't ready within the timeout
+	 */
+	async waitUntilReady(controller: ZenController, options: ZenWaitUntilReadyOptions = {}): Promise<void> {
+		const timeout = options.timeout ?? 1000 * 60 * 5
+		const interval = options.interval ?? 1000 * 5
+		const deadline = Date.now() + timeout
+		const signal = options.signal
+
+		for (;;) {
+			let reason: string
+			try {
+				if (!await this.queryControllerStartupComplete(controller, { signal })) {
+					reason = 'startup is not complete'
+				} else if (!await this.queryIsDaliReady(controller, { signal })) {
+					reason = 'DALI bus is not ready'
+				} else {
+					return
+				}
+			} catch (error) {
+				if (error instanceof ZenAbortError) {
+					throw error
+				}
+				reason = error instanceof Error ? error.message : String(error)
+			}
+
+			if (Date.now() + interval > deadline) {
+				throw new ZenTimeoutError(`Controller ${controller.host} not ready after ${timeout}ms: ${reason}`)
+			}
+			this.logger.debug(`Waiting for controller ${controller.host} to be ready: ${reason}`)
+			await delay(interval, signal)
+			if (signal?.aborted) {
+				throw new ZenAbortError(`Stopped waiting for controller ${controller.host} to be ready`)
+			}
+		}
+	}
 
 	// def override_dali_button_led_state(self, instance: ZenInstance, led_state: bool) -> bool:
 	//     """Override the LED state for a DALI push button. State is True for LED on, False for LED off. Returns true if command succeeded, else `false`."""
@@ -1238,80 +2071,63 @@ export class ZenProtocol {
 	//             case 0x02: return True
 	//     return None
 
-	// def dali_stop_fade(self, address: ZenAddress) -> bool:
-	//     """Tell a DALI address (ECG or ECD) to stop running a fade. Returns `true` if command succeeded, else `false`.
+	/**
+	 * Tell a DALI address (ECG or group or broadcast) to stop running a fade. Returns `true` if acknowledged, else `false`.
+	 *
+	 * Caution: this literally stops the fade. It doesn't jump to the target level.
+	 *
+	 * Note: for custom fades started via `daliCustomFade`, this can only stop fades that were started with the same target
+	 * address. For example, you cannot stop a custom fade on a single address if it was started as part of a group fade.
+	 */
+	async daliStopFade(address: ZenAddress, options: ZenRequestOptions = {}): Promise<boolean> {
+		return !!await this.sendBasicFrame(address.controller, 'DALI_STOP_FADE', address.ecgOrGroupOrBroadcast(), [], 'ok', options)
+	}
 
-	//     Caution: this literally stops the fade. It doesn't jump to the target level.
+	/** Query the colour features/capabilities of a DALI address (ECG). A device without colour support reports no features. */
+	async queryDaliColourFeatures(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenColourFeatures> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_DALI_COLOUR_FEATURES', address.ecg(), [], 'bytes', options)
+		if (!response) {
+			return {
+				supportsXy: false,
+				supportsTunable: false,
+				primaryCount: 0,
+				rgbwafChannels: 0,
+			}
+		}
+		if (response.length !== 1) {
+			throw new ZenResponseError(`Unexpected response for QUERY_DALI_COLOUR_FEATURES: ${response.length}`)
+		}
 
-	//     Note: For custom fades started via DALI_CUSTOM_FADE, this can only stop
-	//     fades that were started with the same target address. For example, you 
-	//     cannot stop a custom fade on a single address if it was started as part
-	//     of a group or broadcast fade.
-	//     """
-	//     return self._send_basic(address.controller, self.CMD["DALI_STOP_FADE"], address.ecg_or_group_or_broadcast(), return_type='ok')
+		const features = response[0]
+		return {
+			supportsXy: (features & 0x01) !== 0,
+			supportsTunable: (features & 0x02) !== 0,
+			primaryCount: (features & 0x1c) >> 2,
+			rgbwafChannels: (features & 0xe0) >> 5,
+		}
+	}
 
-	// def query_dali_colour_features(self, address: ZenAddress) -> Optional[dict]:
-	//     """Query the colour features/capabilities of a DALI device.
-    
-	//     Args:
-	//         address: ZenAddress
-        
-	//     Returns:
-	//         Dictionary containing colour capabilities, or None if query failed:
-	//         {
-	//             'supports_xy': bool,          # Supports CIE 1931 XY coordinates
-	//             'primary_count': int,         # Number of primaries (0-7)
-	//             'rgbwaf_channels': int,      # Number of RGBWAF channels (0-7)
-	//         }
-	//     """
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_DALI_COLOUR_FEATURES"], address.ecg(), cacheable=True)
-	//     if response and len(response) == 1:
-	//         features = response[0]
-	//         return {
-	//             'supports_xy': bool(features & 0x01),      # Bit 0
-	//             'supports_tunable': bool(features & 0x02), # Bit 1
-	//             'primary_count': (features & 0x1C) >> 2,   # Bits 2-4
-	//             'rgbwaf_channels': (features & 0xE0) >> 5, # Bits 5-7
-	//         }
-	//     elif response is None:
-	//         return {
-	//             'supports_xy': False,
-	//             'supports_tunable': False,
-	//             'primary_count': 0,
-	//             'rgbwaf_channels': 0,
-	//         }
-	//     return None
+	/** Query the colour temperature limits of a DALI address (ECG) in Kelvin. Returns `null` if the device doesn't support colour temperature. */
+	async queryDaliColourTempLimits(address: ZenAddress, options: ZenRequestOptions = {}): Promise<ZenColourTempLimits | null> {
+		const response = await this.sendBasicFrame(address.controller, 'QUERY_DALI_COLOUR_TEMP_LIMITS', address.ecg(), [], 'bytes', options)
+		if (!response) {
+			return null
+		}
+		if (response.length !== 10) {
+			throw new ZenResponseError(`Unexpected response for QUERY_DALI_COLOUR_TEMP_LIMITS: ${response.length}`)
+		}
 
-	// def query_dali_colour_temp_limits(self, address: ZenAddress) -> Optional[dict]:
-	//     """Query the colour temperature limits of a DALI device.
-    
-	//     Args:
-	//         controller: ZenController instance
-	//         gear: DALI address (0-63)
-        
-	//     Returns:
-	//         Dictionary containing colour temperature limits in Kelvin, or None if query failed:
-	//         {
-	//             'physical_warmest': int,  # Physical warmest temp limit (K)
-	//             'physical_coolest': int,  # Physical coolest temp limit (K) 
-	//             'soft_warmest': int,      # Configured warmest temp limit (K)
-	//             'soft_coolest': int,      # Configured coolest temp limit (K)
-	//             'step_value': int         # Step value (K)
-	//         }
-	//     """
-	//     response = self._send_basic(address.controller, self.CMD["QUERY_DALI_COLOUR_TEMP_LIMITS"], address.ecg(), cacheable=True)
-	//     if response and len(response) == 10:
-	//         return {
-	//             'physical_warmest': (response[0] << 8) | response[1],
-	//             'physical_coolest': (response[2] << 8) | response[3],
-	//             'soft_warmest': (response[4] << 8) | response[5],
-	//             'soft_coolest': (response[6] << 8) | response[7],
-	//             'step_value': (response[8] << 8) | response[9]
-	//         }
-	//     return None
+		return {
+			physicalWarmest: response.readUInt16BE(0),
+			physicalCoolest: response.readUInt16BE(2),
+			softWarmest: response.readUInt16BE(4),
+			softCoolest: response.readUInt16BE(6),
+			step: response.readUInt16BE(8),
+		}
+	}
 
 	/** Set a system variable (0-147) value (-32768-32767) on the controller. Returns `true` if successful, else `false`. */
-	async setSystemVariable(controller: ZenController, variable: number, value: number): Promise<boolean> {
+	async setSystemVariable(controller: ZenController, variable: number, value: number, options: ZenRequestOptions = {}): Promise<boolean> {
 		if (variable < 0 || variable > ZenConst.MAX_SYSVAR) {
 			throw new Error(`Variable number must be between 0 and ${ZenConst.MAX_SYSVAR}, received ${variable}`)
 		}
@@ -1323,17 +2139,17 @@ export class ZenProtocol {
 		buffer.writeInt16BE(value)
 
 		/* NB: we need to left-pad our buffer to 3 bytes as we are big endian */
-		return !!this.sendBasicFrame(controller, 'SET_SYSTEM_VARIABLE', variable, [0, ...buffer], 'ok')
+		return !!this.sendBasicFrame(controller, 'SET_SYSTEM_VARIABLE', variable, [0, ...buffer], 'ok', options)
 	}
 
 	/** Query the controller for the value of a system variable (0-147). Returns the variable's value (0-65534) if successful
 	 * and if the variable has a value, else `null`. */
-	async querySystemVariable(controller: ZenController, variable: number): Promise<number | null> {
+	async querySystemVariable(controller: ZenController, variable: number, options: ZenRequestOptions = {}): Promise<number | null> {
 		if (variable < 0 || variable > ZenConst.MAX_SYSVAR) {
 			throw new Error(`Variable number must be between 0 and ${ZenConst.MAX_SYSVAR}, received ${variable}`)
 		}
 
-		const response = await this.sendBasicFrame(controller, 'QUERY_SYSTEM_VARIABLE', variable, [], 'bytes')
+		const response = await this.sendBasicFrame(controller, 'QUERY_SYSTEM_VARIABLE', variable, [], 'bytes', options)
 		if (response && response.length === 2) {
 			const result = (response[0] << 8) | (response[1] & 0xff)
 			if (result !== 65535) {
@@ -1348,16 +2164,16 @@ export class ZenProtocol {
 	}
 
 	/** Query the name of a system variable (0-147). Returns the variable's name, or `null` if query fails. */
-	async querySystemVariableName(controller: ZenController, variable: number): Promise<string | null> {
+	async querySystemVariableName(controller: ZenController, variable: number, options: ZenRequestOptions = {}): Promise<string | null> {
 		if (variable < 0 || variable > ZenConst.MAX_SYSVAR) {
 			throw new Error(`Variable number must be between 0 and ${ZenConst.MAX_SYSVAR}, received ${variable}`)
 		}
 
-		return await this.sendBasicFrame(controller, 'QUERY_SYSTEM_VARIABLE_NAME', variable, [], 'str')
+		return await this.sendBasicFrame(controller, 'QUERY_SYSTEM_VARIABLE_NAME', variable, [], 'str', options)
 	}
 
-	async querySceneLevel(controller: ZenController, group: number, scene: number): Promise<number | null> {
-		const { data } = await this.sendPacket(controller, 'QUERY_SCENE_BY_NUMBER', [group, scene])
+	async querySceneLevel(controller: ZenController, group: number, scene: number, options: ZenRequestOptions = {}): Promise<number | null> {
+		const { data } = await this.sendPacket(controller, 'QUERY_SCENE_BY_NUMBER', [group, scene], options)
 		return data.length > 0 ? data[0] : null
 	}
 
@@ -1411,21 +2227,92 @@ export class ZenProtocol {
 		Object.assign(this, callbacks)
 	}
 
+	/**
+	 * Add a listener for an event. Listeners are called in the order they were added, and before the callback property
+	 * for the event type.
+	 */
+	on<T extends ZenEventName>(type: T, listener: ZenEventListener<T>): this {
+		this._addListener(type, listener, false)
+		return this
+	}
+
+	/** Add a listener that is removed after it is called for the first time. */
+	once<T extends ZenEventName>(type: T, listener: ZenEventListener<T>): this {
+		this._addListener(type, listener, true)
+		return this
+	}
+
+	/** Remove a listener added with `on` or `once`. */
+	off<T extends ZenEventName>(type: T, listener: ZenEventListener<T>): this {
+		this._removeListener(type, listener as (event: ZenEvent) => void)
+		return this
+	}
+
+	/**
+	 * Return an `AsyncIterable` of events, optionally filtered by controller, event type and address. Each stream buffers
+	 * events independently until they're consumed. End the stream by breaking out of `for await`, or by aborting the
+	 * `signal` option.
+	 */
+	events(options: ZenEventStreamOptions = {}): ZenEventStream {
+		const stream: ZenEventStream = new ZenEventStream(options, () => this.eventStreams.delete(stream))
+		if (!stream.closed) {
+			this.eventStreams.add(stream)
+		}
+		return stream
+	}
+
+	private _addListener<T extends ZenEventName>(type: T, listener: ZenEventListener<T>, once: boolean): void {
+		const listeners = this.eventListeners.get(type) ?? []
+		listeners.push({ listener: listener as (event: ZenEvent) => void, once })
+		this.eventListeners.set(type, listeners)
+	}
+
+	private _removeListener(type: ZenEventName, listener: (event: ZenEvent) => void): void {
+		const listeners = this.eventListeners.get(type)
+		const index = listeners?.findIndex(entry => entry.listener === listener) ?? -1
+		if (listeners && index !== -1) {
+			listeners.splice(index, 1)
+		}
+	}
+
 	async startEventMonitoring(): Promise<void> {
-		const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
-		socket.on('error', (err) => {
-			this.logger.warn(`Event socket error: ${err}`)
+		if (this.closed) {
+			throw new ZenClosedError('Cannot start event monitoring as the protocol is closed')
+		}
+
+		const previousChannel = this.eventChannel
+		if (previousChannel) {
+			this.eventChannel = null
+			await previousChannel.close()
+		}
+
+		const channel: ZenEventChannel = await this.transport.openEventChannel({ unicast: this.unicast, listenIp: this.listenIp, listenPort: this.listenPort }, {
+			message: (msg, rinfo) => {
+				this.recorder?.recordEvent(msg, rinfo)
+				try {
+					this._handleEventPacket(msg, rinfo)
+				} catch (error) {
+					this.logger.warn(`Failed to handle event packet from ${rinfo.address}:${rinfo.port}: ${error instanceof Error ? error.message : error}`)
+				}
+			},
+			error: (err) => {
+				this.logger.warn(`Event socket error: ${err}`)
+			},
+			close: () => this._handleEventClose(channel),
 		})
+		this.eventChannel = channel
+
 		if (this.unicast) {
 			const setupControllers = async() => {
-				const port = socket.address().port
+				const port = channel.port()
 				for (const controller of this.controllers) {
 					const address = this.listenIp !== '0.0.0.0' ? this.listenIp : hostAddressFor(controller.host)
 					if (address) {
+						await this._recordOriginalEventMode(controller)
 						this.logger.debug(`Setting unicast address on controller ${controller.host} to address ${address}:${port}`)
 						await this.setTpiEventUnicastAddress(controller, address, port)
 						this.logger.debug(`Setting unicast event mode on controller ${controller.host}`)
-						const result = await this.tpiEventEmit(controller, new ZenEventMode({ enabled: true, filtering: false, unicast: true, multicast: true }))
+						const result = await this.tpiEventEmit(controller, new ZenEventMode({ enabled: true, filtering: this.filtering, unicast: true, multicast: true }))
 						if (!result) {
 							this.logger.warn(`Controller failed to activate unicast event emit: ${controller.host}`)
 						}
@@ -1434,42 +2321,26 @@ export class ZenProtocol {
 					}
 				}
 			}
-			socket.bind(this.listenPort, this.listenIp, () => {
-				setupControllers().catch((reason) => {
-					this.logger.warn(`Failed to setup controllers for unicast: ${reason}`)
-				})
+			setupControllers().catch((reason) => {
+				this.logger.warn(`Failed to setup controllers for unicast: ${reason}`)
 			})
-			
 		} else {
 			const setupControllers = async () => {
 				for (const controller of this.controllers) {
+					await this._recordOriginalEventMode(controller)
 					this.logger.debug(`Disabling unicast on controller ${controller.host}`)
 					await this.setTpiEventUnicastAddress(controller)
 					this.logger.debug(`Setting multicast event mode on controller ${controller.host}`)
-					const result = await this.tpiEventEmit(controller, new ZenEventMode({ enabled: true, filtering: false, unicast: false, multicast: true }))
+					const result = await this.tpiEventEmit(controller, new ZenEventMode({ enabled: true, filtering: this.filtering, unicast: false, multicast: true }))
 					if (!result) {
 						this.logger.warn(`Controller failed to activate multicast event emit: ${controller.host}`)
 					}
 				}
 			}
-			
-			socket.bind(ZenConst.MULTICAST_PORT, () => {
-				socket.addMembership(ZenConst.MULTICAST_GROUP)
-
-				setupControllers().catch((reason) => {
-					this.logger.warn(`Failed to setup controllers for multicast: ${reason}`)
-				})
+			setupControllers().catch((reason) => {
+				this.logger.warn(`Failed to setup controllers for multicast: ${reason}`)
 			})
 		}
-		socket.on('message', (msg: Buffer, rinfo: RemoteInfo) => {
-			try {
-				this._handleEventPacket(msg, rinfo)
-			} catch (error) {
-				this.logger.warn(`Failed to handle event packet from ${rinfo.address}:${rinfo.port}: ${error instanceof Error ? error.message : error}`)
-			}
-		})
-		socket.on('close', () => this._handleEventClose())
-		this.eventSocket = socket
 
 		if (this.checkEventMonitoringInterval) {
 			clearInterval(this.checkEventMonitoringInterval)
@@ -1478,22 +2349,113 @@ export class ZenProtocol {
 	}
 
 	stopEventMonitoring(): void {
+		this._stopEventMonitoring()
+	}
+
+	/** Stop receiving events. Resolves once each controller's unicast address has been reset, or failed to reset. */
+	private async _stopEventMonitoring(): Promise<void> {
 		if (this.checkEventMonitoringInterval) {
 			clearInterval(this.checkEventMonitoringInterval)
 			this.checkEventMonitoringInterval = undefined
 		}
 
+		const resets: Promise<void>[] = []
 		if (this.unicast) {
 			for (const controller of this.controllers) {
-				this.setTpiEventUnicastAddress(controller)
+				resets.push(this.setTpiEventUnicastAddress(controller).then(() => {}, (reason) => {
+					this.logger.warn(`Failed to reset unicast address on controller ${controller.host}: ${reason}`)
+				}))
+			}
+		}
+
+		const eventChannel = this.eventChannel
+		if (eventChannel) {
+			this.eventChannel = null
+			eventChannel.close().catch((reason) => {
+				this.logger.warn(`Failed to close event socket: ${reason}`)
+			})
+		}
+
+		await Promise.all(resets)
+	}
+
+	private async _recordOriginalEventMode(controller: ZenController): Promise<void> {
+		if (!this.originalEventModes.has(controller.id)) {
+			this.originalEventModes.set(controller.id, await this.queryTpiEventEmitState(controller))
+		}
+	}
+
+	/** Restore each controller's event emit mode from before event monitoring started */
+	private async _restoreEventModes(): Promise<void> {
+		for (const [controllerId, mode] of this.originalEventModes) {
+			const controller = this.controllers.find(controller => controller.id === controllerId)
+			if (!controller || !mode) {
+				continue
+			}
+			try {
+				this.logger.debug(`Restoring event mode on controller ${controller.host}`)
+				await this.tpiEventEmit(controller, mode)
+			} catch (error) {
+				this.logger.warn(`Failed to restore event mode on controller ${controller.host}: ${error instanceof Error ? error.message : error}`)
 			}
 		}
+		this.originalEventModes.clear()
+	}
 
-		const eventSocket = this.eventSocket
-		if (eventSocket) {
-			this.eventSocket = null
-			eventSocket.disconnect()
+	/**
+	 * Shut down: stop monitoring, restore each controller's event emit mode, wait for requests in flight to finish, and
+	 * release the sockets. Requests still in flight after the drain timeout reject with `ZenClosedError`, as do any later
+	 * calls. Event streams end.
+	 */
+	async close(options: ZenCloseOptions = {}): Promise<void> {
+		if (!this.closing) {
+			this.closing = this._close(options.drainTimeout ?? 5000)
 		}
+		return this.closing
+	}
+
+	private async _close(drainTimeout: number): Promise<void> {
+		this.stopGearHealthMonitoring()
+		this.stopReachabilityMonitoring()
+		await this._stopEventMonitoring()
+		await this._restoreEventModes()
+
+		this.closed = true
+		for (const stream of [...this.eventStreams]) {
+			stream.return()
+		}
+
+		await this._drain(drainTimeout)
+
+		for (const [seq, request] of this.requestsBySeq.entries()) {
+			if (request) {
+				clearTimeout(request.timeout)
+				delete this.requestsBySeq[seq]
+				this.finishActiveRequest(request.controller)
+				request.reject(new ZenClosedError(`Request to ${request.controller.host}:${request.controller.port} was still in flight when the protocol closed`))
+			}
+		}
+
+		await this.commandChannel.close()
+	}
+
+	/** Wait until no requests are in flight, or until the timeout in ms */
+	private _drain(timeout: number): Promise<void> {
+		if (!this._hasActiveRequests()) {
+			return Promise.resolve()
+		}
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => this.drained?.(), timeout)
+			this.drained = () => {
+				clearTimeout(timer)
+				this.drained = undefined
+				resolve()
+			}
+		})
+	}
+
+	private _hasActiveRequests(): boolean {
+		return Object.values(this.activeRequests).some(count => count > 0)
 	}
 
 	private async _checkEventMonitoring() {
@@ -1501,228 +2463,485 @@ export class ZenProtocol {
 
 		const expectMulticast = !this.unicast
 
-		const problem = states.find(state => state === null || !state.enabled || (expectMulticast && state.multicast !== expectMulticast) || (this.unicast && !state.unicast))
+		const problem = states.find(state => state === null || !state.enabled || state.filtering !== this.filtering || (expectMulticast && state.multicast !== expectMulticast) || (this.unicast && !state.unicast))
 		if (problem) {
 			this.logger.info('Restarting event monitoring as check reveals controller emit state has changed')
-			this.startEventMonitoring()
+			this.startEventMonitoring().catch((reason) => {
+				this.logger.warn(`Failed to restart event monitoring: ${reason}`)
+			})
 		} else {
 			this.logger.debug('Checked controller event monitoring states: OK')
 		}
 	}
 
-	private _handleEventClose(): void {
-		if (this.eventSocket) {
-			this.logger.info('Restarting event monitoring as the event socket closed unexpectedly')
-			this.startEventMonitoring()
+	/**
+	 * Start periodically polling the status of every control gear on each controller. A failure of a control gear or its
+	 * lamp is reported to `gearFaultCallback`, and its recovery to `gearRecoveredCallback`.
+	 * @param interval the time between polls in ms
+	 */
+	startGearHealthMonitoring(interval = 1000 * 60 * 5): void {
+		this.stopGearHealthMonitoring()
+		this.gearHealthInterval = setInterval(() => {
+			this.pollGearHealth().catch((reason) => {
+				this.logger.warn(`Failed to poll control gear health: ${reason}`)
+			})
+		}, interval)
+		this.pollGearHealth().catch((reason) => {
+			this.logger.warn(`Failed to poll control gear health: ${reason}`)
+		})
+	}
+
+	stopGearHealthMonitoring(): void {
+		if (this.gearHealthInterval) {
+			clearInterval(this.gearHealthInterval)
+			this.gearHealthInterval = undefined
 		}
 	}
 
-	private _handleEventPacket(packet: Buffer, rinfo: RemoteInfo): void {
-		if (packet.length < 2) {
-			this.logger.warn(`Invalid event packet from ${rinfo.address}:${rinfo.port}: too short ${packet.length}`)
+	/** Poll the status of every control gear on each controller once, reporting any faults or recoveries. */
+	async pollGearHealth(): Promise<void> {
+		if (this.gearHealthPolling) {
+			this.logger.debug('Skipping control gear health poll as the previous poll is still running')
 			return
 		}
-		if (packet[0] !== 0x5a || packet[1] !== 0x43) {
-			this.logger.warn(`Invalid event packet from ${rinfo.address}:${rinfo.port}: invalid magic bytes ${packet[0].toString(16)}${packet[1].toString(16)}`)
+
+		this.gearHealthPolling = true
+		try {
+			for (const controller of this.controllers) {
+				let addresses: ZenAddress[]
+				try {
+					addresses = await this.queryControlGearDaliAddresses(controller, { priority: 'background' })
+				} catch (error) {
+					this.logger.warn(`Failed to query control gear on controller ${controller.host} for health poll: ${error instanceof Error ? error.message : error}`)
+					continue
+				}
+
+				for (const address of addresses) {
+					let status: ZenControlGearStatus | null
+					try {
+						status = await this.queryControlGearStatus(address, { priority: 'background' })
+					} catch (error) {
+						this.logger.warn(`Failed to query status of ${address} for health poll: ${error instanceof Error ? error.message : error}`)
+						continue
+					}
+					if (status) {
+						this._updateGearHealth(address, status)
+					}
+				}
+			}
+		} finally {
+			this.gearHealthPolling = false
+		}
+	}
+
+	private _updateGearHealth(address: ZenAddress, status: ZenControlGearStatus): void {
+		const key = `${address.controller.id}.${address.target}`
+		const previous = this.gearHealth.get(key)
+		this.gearHealth.set(key, status)
+
+		if (status.hasFault() && !previous?.hasFault()) {
+			this._emitEvent({ type: 'gearFault', controller: address.controller, target: address.target, receivedAt: new Date(), address, status })
+		} else if (!status.hasFault() && previous?.hasFault()) {
+			this._emitEvent({ type: 'gearRecovered', controller: address.controller, target: address.target, receivedAt: new Date(), address, status })
+		}
+	}
+
+	/** The current reachability of a controller, based on responses, events and failed requests. */
+	controllerState(controller: ZenController): ZenControllerState {
+		return this.reachability.get(controller.id)?.state ?? 'unknown'
+	}
+
+	/**
+	 * Start periodically sending a heartbeat query to each controller that hasn't been heard from within the interval, so
+	 * that a controller that goes offline is noticed. Changes are reported to `controllerStateChangeCallback`.
+	 * @param interval the time between polls in ms
+	 */
+	startReachabilityMonitoring(interval = 1000 * 30): void {
+		this.stopReachabilityMonitoring()
+		this.reachabilityInterval = setInterval(() => {
+			this.pollReachability(interval).catch((reason) => {
+				this.logger.warn(`Failed to poll controller reachability: ${reason}`)
+			})
+		}, interval)
+		this.pollReachability(interval).catch((reason) => {
+			this.logger.warn(`Failed to poll controller reachability: ${reason}`)
+		})
+	}
+
+	stopReachabilityMonitoring(): void {
+		if (this.reachabilityInterval) {
+			clearInterval(this.reachabilityInterval)
+			this.reachabilityInterval = undefined
+		}
+	}
+
+	/**
+	 * Send a heartbeat query to each controller once, updating its reachability.
+	 * @param idle only query controllers that haven't been heard from for this long in ms
+	 */
+	async pollReachability(idle = 0): Promise<void> {
+		if (this.reachabilityPolling) {
+			this.logger.debug('Skipping controller reachability poll as the previous poll is still running')
+			return
+		}
+
+		this.reachabilityPolling = true
+		try {
+			await Promise.all(this.controllers.map(async (controller) => {
+				const lastSeen = this.reachability.get(controller.id)?.lastSeen
+				if (idle && lastSeen !== undefined && Date.now() - lastSeen < idle) {
+					return
+				}
+				try {
+					await this.queryControllerStartupComplete(controller, { priority: 'background' })
+				} catch (error) {
+					this.logger.debug(`Heartbeat failed for controller ${controller.host}: ${error instanceof Error ? error.message : error}`)
+				}
+			}))
+		} finally {
+			this.reachabilityPolling = false
+		}
+	}
+
+	private _controllerReached(controller: ZenController): void {
+		const reachability = this._reachability(controller)
+		reachability.failures = 0
+		reachability.lastSeen = Date.now()
+		this._setControllerState(controller, 'online')
+	}
+
+	private _controllerFailed(controller: ZenController): void {
+		const reachability = this._reachability(controller)
+		reachability.failures++
+		if (this.circuitBreaker) {
+			reachability.nextProbe = Date.now() + this.circuitBreaker.probeInterval
+		}
+		this._setControllerState(controller, reachability.failures >= ZenConst.CONTROLLER_OFFLINE_FAILURES ? 'offline' : 'degraded')
+	}
+
+	/**
+	 * Fail fast if the controller's circuit breaker is open, unless a probe request is due. Returns `true` if the request
+	 * is let through as a probe.
+	 */
+	private _checkCircuitBreaker(controller: ZenController, command: ZenCommand): boolean {
+		const reachability = this.reachability.get(controller.id)
+		if (!this.circuitBreaker || !reachability || reachability.failures < this.circuitBreaker.failureThreshold) {
+			return false
+		}
+		if (Date.now() < reachability.nextProbe) {
+			throw new ZenControllerUnavailableError(`Not sending ${command} to ${controller.host}:${controller.port} as its last ${reachability.failures} requests failed`)
+		}
+
+		/* Until this probe fails or succeeds, other requests fail fast */
+		reachability.nextProbe = Date.now() + this.circuitBreaker.probeInterval
+		return true
+	}
+
+	private _reachability(controller: ZenController): ZenControllerReachability {
+		let reachability = this.reachability.get(controller.id)
+		if (!reachability) {
+			reachability = { state: 'unknown', failures: 0, lastSeen: 0, nextProbe: 0 }
+			this.reachability.set(controller.id, reachability)
+		}
+		return reachability
+	}
+
+	private _setControllerState(controller: ZenController, state: ZenControllerState): void {
+		const reachability = this._reachability(controller)
+		const previousState = reachability.state
+		if (state === previousState) {
 			return
 		}
 
-		// Extract packet fields
-		const macBytes = packet.subarray(2, 8)
-		const macAddress = [...macBytes].map(b => b.toString(16).padStart(2, '0')).join(':')
-		const target = (packet[8] & 0xff) << 8 | packet[9] & 0xff
-		const eventCode = packet[10]
-		const payloadLen = packet[11]
-		const payload = packet.subarray(12, packet.length - 1)
-		const receivedChecksum = packet[packet.length - 1]
+		reachability.state = state
+		this.logger.info(`Controller ${controller.host} is ${state}`)
+		this._emitEvent({ type: 'controllerStateChange', controller, target: 0, receivedAt: new Date(), state, previousState })
+	}
 
-		if (payloadLen !== payload.length) {
-			this.logger.warn(`Invalid payload length for event packet from ${rinfo.address}:${rinfo.port}`)
+	private _handleEventClose(channel: ZenEventChannel): void {
+		if (this.eventChannel === channel) {
+			this.logger.info('Restarting event monitoring as the event socket closed unexpectedly')
+			this.startEventMonitoring().catch((reason) => {
+				this.logger.warn(`Failed to restart event monitoring: ${reason}`)
+			})
 		}
+	}
+
+	/**
+	 * Handle an event packet as if it had been received from a controller, delivering it to listeners, event streams and
+	 * callbacks. Used to play back recorded events, or to feed in events received by other means. Injected events don't
+	 * count as contact with the controller, so don't change its reachability or circuit breaker.
+	 * @param packet the event packet, as sent by the controller
+	 * @param rinfo the address the packet was sent from, used for logging
+	 * @param receivedAt when the packet was received, if not now
+	 */
+	injectEventPacket(packet: Buffer, rinfo: ZenRemoteInfo, receivedAt = new Date()): void {
+		this._handleEventPacket(packet, rinfo, receivedAt, true)
+	}
 
-		if (this.checksumBuffer(packet.subarray(0, -1)) !== receivedChecksum) {
-			this.logger.warn(`Checksum mismatch for event packet from ${rinfo.address}:${rinfo.port}`)
+	/**
+	 * Decode an event packet and deliver it to listeners, event streams and callbacks.
+	 * @param injected whether the packet was passed to `injectEventPacket` rather than received from a controller
+	 */
+	private _handleEventPacket(packet: Buffer, rinfo: ZenRemoteInfo, receivedAt = new Date(), injected = false): void {
+		let frame: ZenEventFrame
+		try {
+			frame = decodeEventFrame(packet, {
+				onLengthMismatch: (error) => {
+					this.logger.warn(`Invalid payload length for event packet from ${rinfo.address}:${rinfo.port}: ${error.message}`)
+				},
+			})
+		} catch (error) {
+			this.logger.warn(`Invalid event packet from ${rinfo.address}:${rinfo.port}: ${error instanceof Error ? error.message : error}`)
 			return
 		}
+		const { macAddress, target, eventCode, payload } = frame
 
 		const controller = this._findController(macAddress)
 		if (!controller) {
 			this.logger.warn(`Failed to find controller with MAC address ${macAddress} for event packet from ${rinfo.address}:${rinfo.port}`)
 			return
 		}
+		if (!injected) {
+			this._controllerReached(controller)
+		}
+
+		const recentEvents = injected ? this.recentInjectedEvents : this.recentEvents
+		if (this._isDuplicateEvent(recentEvents, macAddress, target, eventCode, payload, receivedAt.getTime())) {
+			this.logger.debug(`Ignoring duplicate event ${eventCode} for target ${target} from ${rinfo.address}:${rinfo.port}`)
+			return
+		}
 
+		const base = { controller, target, receivedAt }
 		switch (eventCode) {
-		case ZenEventType.BUTTON_PRESS_EVENT:
+		case ZenEventType.BUTTON_PRESS_EVENT: {
 			// Button Press - Button has been pressed
-			if (this.buttonPressCallback) {
-				const instance = new ZenInstance(new ZenAddress(controller, ZenAddressType.ECD, target - 64), ZenInstanceType.PUSH_BUTTON, payload[0])
-				try {
-					this.buttonPressCallback(instance)
-				} catch (error) {
-					this.logger.warn(`Change callback failed for button press event from ${rinfo.address}:${rinfo.port} for ${instance}: ${error instanceof Error ? error.message : error}`)
-				}
-			}
+			const instance = new ZenInstance(new ZenAddress(controller, ZenAddressType.ECD, target - 64), ZenInstanceType.PUSH_BUTTON, payload[0])
+			this._emitEvent({ ...base, type: 'buttonPress', instance })
 			break
-		case ZenEventType.BUTTON_HOLD_EVENT:
+		}
+		case ZenEventType.BUTTON_HOLD_EVENT: {
 			// Button Hold - Button has been pressed and is being held down
-			if (this.buttonHoldCallback) {
-				const instance = new ZenInstance(new ZenAddress(controller, ZenAddressType.ECD, target - 64), ZenInstanceType.PUSH_BUTTON, payload[0])
-				try {
-					this.buttonHoldCallback(instance)
-				} catch (error) {
-					this.logger.warn(`Change callback failed for button hold event from ${rinfo.address}:${rinfo.port} for ${instance}: ${error instanceof Error ? error.message : error}`)
-				}
-			}
+			const instance = new ZenInstance(new ZenAddress(controller, ZenAddressType.ECD, target - 64), ZenInstanceType.PUSH_BUTTON, payload[0])
+			this._emitEvent({ ...base, type: 'buttonHold', instance })
 			break
-		case ZenEventType.ABSOLUTE_INPUT_EVENT:
+		}
+		case ZenEventType.ABSOLUTE_INPUT_EVENT: {
 			// Absolute Input - Absolute input has changed
-			if (this.absoluteInputCallback) {
-				const value = (payload[1] & 0xff << 8) | (payload[2] & 0xff)
-				const instance = new ZenInstance(new ZenAddress(controller, ZenAddressType.ECD, target - 64), ZenInstanceType.PUSH_BUTTON, payload[0])
-				try {
-					this.absoluteInputCallback(instance, value)
-				} catch (error) {
-					this.logger.warn(`Change callback failed for absolute input change event from ${rinfo.address}:${rinfo.port} for ${instance}: ${error instanceof Error ? error.message : error}`)
-				}
-			}
+			const value = (payload[1] & 0xff << 8) | (payload[2] & 0xff)
+			const instance = new ZenInstance(new ZenAddress(controller, ZenAddressType.ECD, target - 64), ZenInstanceType.PUSH_BUTTON, payload[0])
+			this._emitEvent({ ...base, type: 'absoluteInput', instance, value })
 			break
+		}
 		case ZenEventType.LEVEL_CHANGE_EVENT:
 			// Level Change - Arc Level on an Address target has changed
-			if (this.levelChangeCallback) {
-				const address = new ZenAddress(controller, ZenAddressType.ECG, target)
-				try {
-					this.levelChangeCallback(address, payload[0])
-				} catch (error) {
-					this.logger.warn(`Change callback failed for level change event from ${rinfo.address}:${rinfo.port} for ${address}: ${error instanceof Error ? error.message : error}`)
-				}
-			}
+			this._emitEvent({ ...base, type: 'levelChange', address: new ZenAddress(controller, ZenAddressType.ECG, target), arcLevel: payload[0] })
 			break
 		case ZenEventType.GROUP_LEVEL_CHANGE_EVENT:
-			// Group Level Change - Arc Level on a Group target has changed	
-			if (this.groupLevelChangeCallback) {
-				const address = new ZenAddress(controller, ZenAddressType.GROUP, target)
-				try {
-					this.groupLevelChangeCallback(address, payload[0])
-				} catch (error) {
-					this.logger.warn(`Change callback failed for group level change event from ${rinfo.address}:${rinfo.port} for ${address}: ${error instanceof Error ? error.message : error}`)
-				}
-			}
+			// Group Level Change - Arc Level on a Group target has changed
+			this._emitEvent({ ...base, type: 'groupLevelChange', address: new ZenAddress(controller, ZenAddressType.GROUP, target), arcLevel: payload[0] })
 			break
 		case ZenEventType.SCENE_CHANGE_EVENT:
-			// Scene Change - Scene has been recalled	
-			if (this.sceneChangeCallback) {
-				if (target <= 63) {
-					const address = new ZenAddress(controller, ZenAddressType.ECG, target)
-					try {
-						this.sceneChangeCallback(address, payload[0])
-					} catch (error) {
-						this.logger.warn(`Change callback failed for scene change event from ${rinfo.address}:${rinfo.port} for ${address}: ${error instanceof Error ? error.message : error}`)
-					}
-				} else if (64 <= target && target <= 79) {
-					const address = new ZenAddress(controller, ZenAddressType.GROUP, target - 64)
-					try {
-						this.sceneChangeCallback(address, payload[0])
-					} catch (error) {
-						this.logger.warn(`Change callback failed for scene change event from ${rinfo.address}:${rinfo.port} for ${address}: ${error instanceof Error ? error.message : error}`)
-					}
-				} else {
-					this.logger.warn(`Invalid scene change event target from ${rinfo.address}:${rinfo.port}: ${target}`)
-				}
+			// Scene Change - Scene has been recalled
+			if (target <= 63) {
+				this._emitEvent({ ...base, type: 'sceneChange', address: new ZenAddress(controller, ZenAddressType.ECG, target), scene: payload[0] })
+			} else if (64 <= target && target <= 79) {
+				this._emitEvent({ ...base, type: 'sceneChange', address: new ZenAddress(controller, ZenAddressType.GROUP, target - 64), scene: payload[0] })
+			} else {
+				this.logger.warn(`Invalid scene change event target from ${rinfo.address}:${rinfo.port}: ${target}`)
 			}
 			break
-		case ZenEventType.OCCUPANCY_EVENT:
+		case ZenEventType.OCCUPANCY_EVENT: {
 			// Is Occupied - An occupancy sensor has been triggered, area is occupied
-			if (this.occupancyCallback) {
-				const instance = new ZenInstance(new ZenAddress(controller, ZenAddressType.ECD, target - 64), ZenInstanceType.OCCUPANCY_SENSOR, payload[0])
-				try {
-					this.occupancyCallback(instance)
-				} catch (error) {
-					this.logger.warn(`Change callback failed for occupancy change event from ${rinfo.address}:${rinfo.port} for ${instance}: ${error instanceof Error ? error.message : error}`)
-				}
-			}
+			const instance = new ZenInstance(new ZenAddress(controller, ZenAddressType.ECD, target - 64), ZenInstanceType.OCCUPANCY_SENSOR, payload[0])
+			this._emitEvent({ ...base, type: 'occupancy', instance })
 			break
+		}
 		case ZenEventType.SYSTEM_VARIABLE_CHANGED_EVENT:
 			// System Variable Change - A system variable has changed
-			if (this.systemVariableChangeCallback) {
-				if (target < 0 || target > ZenConst.MAX_SYSVAR) {
-					this.logger.warn(`Invalid system variable change event from ${rinfo.address}:${rinfo.port}: ${target}`)
-				} else {
-					const rawValue = payload.readInt32BE()
-					const magnitude = payload.readInt8()
+			if (target < 0 || target > ZenConst.MAX_SYSVAR) {
+				this.logger.warn(`Invalid system variable change event from ${rinfo.address}:${rinfo.port}: ${target}`)
+			} else {
+				const rawValue = payload.readInt32BE()
+				const magnitude = payload.readInt8()
 
-					const value = rawValue * Math.pow(10, magnitude)
-					// this.logger.debug(`Received system variable ${controller.id}.${target} change event with rawValue ${rawValue} and magnitude ${magnitude}, equals ${value}`)
+				const value = rawValue * Math.pow(10, magnitude)
+				// this.logger.debug(`Received system variable ${controller.id}.${target} change event with rawValue ${rawValue} and magnitude ${magnitude}, equals ${value}`)
 
-					try {
-						this.systemVariableChangeCallback(controller, target, value)
-					} catch (error) {
-						this.logger.warn(`Change callback failed for system variable change event from ${rinfo.address}:${rinfo.port} for ${target}: ${error instanceof Error ? error.message : error}`)
-					}
-				}
+				this._emitEvent({ ...base, type: 'systemVariableChange', variable: target, value })
 			}
 			break
-		case ZenEventType.COLOUR_CHANGED_EVENT:
-			// Colour Change - A Tc, RGBWAF or XY colour change has occurred	
-			if (this.colourChangeCallback) {
-				let colour: ZenColour
-				try {
-					colour = ZenColour.fromBytes(payload)
-				} catch (error) {
-					this.logger.warn(`Invalid colour change event from ${rinfo.address}:${rinfo.port}: ${target}: ${error instanceof Error ? error.message : error}`)
-					return
-				}
-
-				let address: ZenAddress
-				if (target < 64) {
-					address = new ZenAddress(controller, ZenAddressType.ECG, target)
-				} else if (target >= 64 && target <= 79) {
-					address = new ZenAddress(controller, ZenAddressType.GROUP, target - 64)
-				} else if (target >= 127 && target <= 143) {
-					address = new ZenAddress(controller, ZenAddressType.GROUP, target)
-					this.logger.warn(`Colour change callback received with target=${target}. Assumed to be group ${target - 128}.`)
-				} else {
-					this.logger.warn(`Colour change callback received with unsupported target: ${target}`)
-					return
-				}
+		case ZenEventType.COLOUR_CHANGED_EVENT: {
+			// Colour Change - A Tc, RGBWAF or XY colour change has occurred
+			let colour: ZenColour
+			try {
+				colour = ZenColour.fromBytes(payload)
+			} catch (error) {
+				this.logger.warn(`Invalid colour change event from ${rinfo.address}:${rinfo.port}: ${target}: ${error instanceof Error ? error.message : error}`)
+				return
+			}
 
-				try {
-					this.colourChangeCallback(address, colour)
-				} catch (error) {
-					this.logger.warn(`Change callback failed for colour change event from ${rinfo.address}:${rinfo.port} for ${address}: ${error instanceof Error ? error.message : error}`)
-				}
+			let address: ZenAddress
+			if (target < 64) {
+				address = new ZenAddress(controller, ZenAddressType.ECG, target)
+			} else if (target >= 64 && target <= 79) {
+				address = new ZenAddress(controller, ZenAddressType.GROUP, target - 64)
+			} else if (target >= 127 && target <= 143) {
+				address = new ZenAddress(controller, ZenAddressType.GROUP, target)
+				this.logger.warn(`Colour change event received with target=${target}. Assumed to be group ${target - 128}.`)
+			} else {
+				this.logger.warn(`Colour change event received with unsupported target: ${target}`)
+				return
 			}
+
+			this._emitEvent({ ...base, type: 'colourChange', address, colour })
 			break
+		}
 		case ZenEventType.PROFILE_CHANGED_EVENT:
-			// Profile Change - The active profile on the controller has changed	
-			if (this.profileChangeCallback) {
-				const profile = (payload[0] & 0xff) << 8 | (payload[1] & 0xff)
-				this.profileChangeCallback(controller, profile)
-			}
+			// Profile Change - The active profile on the controller has changed
+			this._emitEvent({ ...base, type: 'profileChange', profile: (payload[0] & 0xff) << 8 | (payload[1] & 0xff) })
 			break
 		case ZenEventType.GROUP_OCCUPANCY_EVENT:
 			// A sensor targeting a group has detected motion
-			if (this.groupOccupancyCallback) {
-				const address = new ZenAddress(controller, ZenAddressType.GROUP, target)
-				try {
-					this.groupOccupancyCallback(address, payload[1] !== 0)
-				} catch (error) {
-					this.logger.warn(`Change callback failed for group occupancy event from ${rinfo.address}:${rinfo.port} for ${address}: ${error instanceof Error ? error.message : error}`)
-				}
-			}
+			this._emitEvent({ ...base, type: 'groupOccupancy', address: new ZenAddress(controller, ZenAddressType.GROUP, target), occupied: payload[1] !== 0 })
 			break
-		case ZenEventType.LEVEL_CHANGE_EVENT_V2:
+		case ZenEventType.LEVEL_CHANGE_EVENT_V2: {
 			// Arc Level of address/group plus if/where it is dimming to
-			if (this.levelChangeV2Callback) {
-				const address = target < 64 ? new ZenAddress(controller, ZenAddressType.ECG, target) : new ZenAddress(controller, ZenAddressType.GROUP, target - 64)
+			const address = target < 64 ? new ZenAddress(controller, ZenAddressType.ECG, target) : new ZenAddress(controller, ZenAddressType.GROUP, target - 64)
+			this._emitEvent({ ...base, type: 'levelChangeV2', address, arcLevel: payload[0], dimmingTo: payload[1] })
+			break
+		}
+		default:
+			this.logger.warn(`Received unknown event type from ${rinfo.address}:${rinfo.port}: ${eventCode}`)
+			break
+		}
+	}
+
+	private _eventDeduplicationWindow(eventCode: number): number {
+		const window = this.eventDeduplicationWindows[eventCode as ZenEventType]
+		if (window !== undefined) {
+			return window
+		}
+		if (eventCode === ZenEventType.BUTTON_PRESS_EVENT || eventCode === ZenEventType.BUTTON_HOLD_EVENT) {
+			return 0
+		}
+		return ZenConst.EVENT_DEDUPLICATION_WINDOW
+	}
+
+	/**
+	 * Check whether the most recent event in `recentEvents` for the same target and event code was identical and received
+	 * within the deduplication window for its type, and remember this one if not.
+	 * @param now when the event was received, in ms since the epoch
+	 */
+	private _isDuplicateEvent(recentEvents: Map<string, { payload: string, time: number }>, macAddress: string, target: number, eventCode: number, payload: Buffer, now: number): boolean {
+		// Forget events older than any deduplication window
+		const maxWindow = Math.max(ZenConst.EVENT_DEDUPLICATION_WINDOW, ...Object.values(this.eventDeduplicationWindows))
+		for (const [key, recent] of recentEvents) {
+			if (now - recent.time <= maxWindow) {
+				break
+			}
+			recentEvents.delete(key)
+		}
+
+		const window = this._eventDeduplicationWindow(eventCode)
+		if (window <= 0) {
+			return false
+		}
+
+		const key = `${macAddress}.${target}.${eventCode}`
+		const hex = payload.toString('hex')
+		const previous = recentEvents.get(key)
+		if (previous && previous.payload === hex && Math.abs(now - previous.time) <= window) {
+			return true
+		}
+
+		recentEvents.delete(key)
+		recentEvents.set(key, { payload: hex, time: now })
+		return false
+	}
+
+	/** Deliver an event to its listeners, event streams and the matching callback property, after clearing cached responses it makes stale. */
+	private _emitEvent(event: ZenEvent): void {
+		const stale = CACHE_INVALIDATIONS[event.type]
+		if (stale?.address && 'address' in event) {
+			this.responseCache?.clearAffected(event.address, stale.address)
+		}
+		if (stale?.controller) {
+			this.responseCache?.clear(event.controller, stale.controller)
+		}
+
+		const listeners = this.eventListeners.get(event.type)
+		if (listeners) {
+			for (const entry of [...listeners]) {
+				if (entry.once) {
+					listeners.splice(listeners.indexOf(entry), 1)
+				}
 				try {
-					this.levelChangeV2Callback(address, payload[0], payload[1])
+					entry.listener(event)
 				} catch (error) {
-					this.logger.warn(`Change callback failed for level change v2 event from ${rinfo.address}:${rinfo.port} for ${address}: ${error instanceof Error ? error.message : error}`)
+					this.logger.warn(`Listener failed for ${event.type} event from ${event.controller.host} for target ${event.target}: ${error instanceof Error ? error.message : error}`)
 				}
 			}
+		}
+
+		for (const stream of this.eventStreams) {
+			stream.push(event)
+		}
+
+		try {
+			this._invokeCallback(event)
+		} catch (error) {
+			this.logger.warn(`Callback failed for ${event.type} event from ${event.controller.host} for target ${event.target}: ${error instanceof Error ? error.message : error}`)
+		}
+	}
+
+	/** Adapt an event to the callback property for its type */
+	private _invokeCallback(event: ZenEvent): void {
+		switch (event.type) {
+		case 'buttonPress':
+			this.buttonPressCallback?.(event.instance)
 			break
-		default:
-			this.logger.warn(`Received unknown event type from ${rinfo.address}:${rinfo.port}: ${eventCode}`)
+		case 'buttonHold':
+			this.buttonHoldCallback?.(event.instance)
+			break
+		case 'absoluteInput':
+			this.absoluteInputCallback?.(event.instance, event.value)
+			break
+		case 'levelChange':
+			this.levelChangeCallback?.(event.address, event.arcLevel)
+			break
+		case 'groupLevelChange':
+			this.groupLevelChangeCallback?.(event.address, event.arcLevel)
+			break
+		case 'sceneChange':
+			this.sceneChangeCallback?.(event.address, event.scene)
+			break
+		case 'occupancy':
+			this.occupancyCallback?.(event.instance)
+			break
+		case 'systemVariableChange':
+			this.systemVariableChangeCallback?.(event.controller, event.variable, event.value)
+			break
+		case 'colourChange':
+			this.colourChangeCallback?.(event.address, event.colour)
+			break
+		case 'profileChange':
+			this.profileChangeCallback?.(event.controller, event.profile)
+			break
+		case 'groupOccupancy':
+			this.groupOccupancyCallback?.(event.address, event.occupied)
+			break
+		case 'levelChangeV2':
+			this.levelChangeV2Callback?.(event.address, event.arcLevel, event.dimmingTo)
+			break
+		case 'gearFault':
+			this.gearFaultCallback?.(event.address, event.status)
+			break
+		case 'gearRecovered':
+			this.gearRecoveredCallback?.(event.address, event.status)
+			break
+		case 'controllerStateChange':
+			this.controllerStateChangeCallback?.(event.controller, event.state, event.previousState)
 			break
 		}
 	}
@@ -0,0 +1,247 @@
+import fs from 'node:fs'
+import { Writable } from 'node:stream'
+import { ZenProtocol } from './zen-protocol.js'
+import { ZenRemoteInfo } from './zen-transport.js'
+
+export type ZenRecordingFormat = 'ndjson' | 'binary'
+
+/** The kind of packet in a recording. Requests and responses are only recorded when `commands` is enabled. */
+export type ZenRecordKind = 'event' | 'request' | 'response'
+
+export interface ZenRecord {
+	/** When the packet was sent or received, in ms since the epoch */
+	time: number
+	kind: ZenRecordKind
+	/** The remote address the packet was received from, or sent to */
+	address: string
+	port: number
+	/** The raw packet */
+	data: Buffer
+}
+
+export interface ZenRecorderOptions {
+	/** The file to write the recording to */
+	path?: string
+	/** The stream to write the recording to, if not writing to a file */
+	stream?: Writable
+	/** Defaults to `ndjson` */
+	format?: ZenRecordingFormat
+	/** Whether to record command requests and responses as well as events, defaults to `false` */
+	commands?: boolean
+}
+
+export interface ZenPlaybackOptions {
+	/** The playback speed relative to real time, e.g. `10` to play ten times faster. Use `Infinity` to play without delays. Defaults to `1`. */
+	speed?: number
+	/** Stops playback when aborted */
+	signal?: AbortSignal
+}
+
+/** The magic bytes at the start of a binary recording */
+const BINARY_MAGIC = Buffer.from('ZTPR', 'ascii')
+const BINARY_VERSION = 1
+
+const RECORD_KINDS: ZenRecordKind[] = ['event', 'request', 'response']
+
+async function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+	if (ms <= 0 || signal?.aborted) {
+		return
+	}
+	return new Promise((resolve) => {
+		const timeout = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		function onAbort() {
+			clearTimeout(timeout)
+			resolve()
+		}
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
+}
+
+function encodeBinaryRecord(record: ZenRecord): Buffer {
+	// kind(1) time(8) port(2) address length(1) address data length(2) data
+	const address = Buffer.from(record.address, 'utf-8')
+	const header = Buffer.alloc(12)
+	header.writeUInt8(RECORD_KINDS.indexOf(record.kind), 0)
+	header.writeDoubleBE(record.time, 1)
+	header.writeUInt16BE(record.port, 9)
+	header.writeUInt8(address.length, 11)
+	const length = Buffer.alloc(2)
+	length.writeUInt16BE(record.data.length)
+	return Buffer.concat([header, address, length, record.data])
+}
+
+function decodeBinaryRecording(data: Buffer): ZenRecord[] {
+	if (data[BINARY_MAGIC.length] !== BINARY_VERSION) {
+		throw new Error(`Unsupported recording version: ${data[BINARY_MAGIC.length]}`)
+	}
+
+	const result: ZenRecord[] = []
+	let offset = BINARY_MAGIC.length + 1
+	while (offset < data.length) {
+		if (offset + 12 > data.length) {
+			throw new Error(`Truncated recording at offset ${offset}`)
+		}
+		const kind = RECORD_KINDS[data.readUInt8(offset)]
+		const time = data.readDoubleBE(offset + 1)
+		const port = data.readUInt16BE(offset + 9)
+		const addressLength = data.readUInt8(offset + 11)
+		const address = data.subarray(offset + 12, offset + 12 + addressLength).toString('utf-8')
+		offset += 12 + addressLength
+
+		if (offset + 2 > data.length) {
+			throw new Error(`Truncated recording at offset ${offset}`)
+		}
+		const dataLength = data.readUInt16BE(offset)
+		offset += 2
+		if (!kind || offset + dataLength > data.length) {
+			throw new Error(`Invalid record at offset ${offset}`)
+		}
+		result.push({ time, kind, address, port, data: Buffer.from(data.subarray(offset, offset + dataLength)) })
+		offset += dataLength
+	}
+	return result
+}
+
+function decodeNdjsonRecording(data: Buffer): ZenRecord[] {
+	const result: ZenRecord[] = []
+	const lines = data.toString('utf-8').split('\n')
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim()
+		if (!line) {
+			continue
+		}
+		let json: { time: number, kind: ZenRecordKind, address: string, port: number, data: string }
+		try {
+			json = JSON.parse(line)
+		} catch (error) {
+			throw new Error(`Invalid record on line ${i + 1}: ${error instanceof Error ? error.message : error}`)
+		}
+		if (!RECORD_KINDS.includes(json.kind) || typeof json.time !== 'number' || typeof json.data !== 'string') {
+			throw new Error(`Invalid record on line ${i + 1}`)
+		}
+		result.push({ time: json.time, kind: json.kind, address: json.address, port: json.port, data: Buffer.from(json.data, 'hex') })
+	}
+	return result
+}
+
+/** Parse a recording in either format */
+export function parseZenRecording(data: Buffer): ZenRecord[] {
+	if (data.subarray(0, BINARY_MAGIC.length).equals(BINARY_MAGIC)) {
+		return decodeBinaryRecording(data)
+	} else {
+		return decodeNdjsonRecording(data)
+	}
+}
+
+/**
+ * Records raw event packets, and optionally command traffic, with timestamps. Attach to a `ZenProtocol` using the
+ * `recorder` option or property.
+ */
+export class ZenRecorder {
+	readonly format: ZenRecordingFormat
+	readonly commands: boolean
+	private stream: Writable
+	private closed = false
+	private error?: Error
+
+	constructor(options: ZenRecorderOptions) {
+		this.format = options.format ?? 'ndjson'
+		this.commands = options.commands ?? false
+
+		if (options.stream) {
+			this.stream = options.stream
+		} else if (options.path) {
+			this.stream = fs.createWriteStream(options.path)
+		} else {
+			throw new Error('A path or stream is required')
+		}
+		this.stream.on('error', (error) => {
+			this.error = error
+		})
+
+		if (this.format === 'binary') {
+			this.stream.write(Buffer.concat([BINARY_MAGIC, Buffer.of(BINARY_VERSION)]))
+		}
+	}
+
+	recordEvent(packet: Buffer, rinfo: ZenRemoteInfo): void {
+		this.record({ time: Date.now(), kind: 'event', address: rinfo.address, port: rinfo.port, data: packet })
+	}
+
+	recordRequest(packet: Buffer, address: string, port: number): void {
+		if (this.commands) {
+			this.record({ time: Date.now(), kind: 'request', address, port, data: packet })
+		}
+	}
+
+	recordResponse(packet: Buffer, rinfo: ZenRemoteInfo): void {
+		if (this.commands) {
+			this.record({ time: Date.now(), kind: 'response', address: rinfo.address, port: rinfo.port, data: packet })
+		}
+	}
+
+	record(record: ZenRecord): void {
+		if (this.closed || this.error) {
+			return
+		}
+
+		if (this.format === 'binary') {
+			this.stream.write(encodeBinaryRecord(record))
+		} else {
+			this.stream.write(JSON.stringify({ time: record.time, kind: record.kind, address: record.address, port: record.port, data: record.data.toString('hex') }) + '\n')
+		}
+	}
+
+	/** Finish writing the recording. Rejects if writing the recording failed. */
+	async close(): Promise<void> {
+		if (!this.closed) {
+			this.closed = true
+			await new Promise<void>((resolve) => {
+				this.stream.end(resolve)
+			})
+		}
+		if (this.error) {
+			throw this.error
+		}
+	}
+}
+
+/**
+ * Plays a recording back through a `ZenProtocol`'s event handling, so listeners and callbacks behave as they did when
+ * the recording was made. Events carry the time they were recorded. Command traffic in the recording is not played.
+ */
+export class ZenPlayer {
+	readonly records: ZenRecord[]
+
+	constructor(records: ZenRecord[]) {
+		this.records = records
+	}
+
+	static async fromFile(path: string): Promise<ZenPlayer> {
+		return new ZenPlayer(parseZenRecording(await fs.promises.readFile(path)))
+	}
+
+	/** Play the recorded events. Resolves when playback finishes or is aborted. */
+	async play(protocol: ZenProtocol, options: ZenPlaybackOptions = {}): Promise<void> {
+		const speed = options.speed ?? 1
+		if (!(speed > 0)) {
+			throw new Error(`Speed must be greater than 0, got ${speed}`)
+		}
+
+		const events = this.records.filter(record => record.kind === 'event')
+		for (let i = 0; i < events.length; i++) {
+			const record = events[i]
+			if (i > 0 && speed !== Infinity) {
+				await abortableDelay((record.time - events[i - 1].time) / speed, options.signal)
+			}
+			if (options.signal?.aborted) {
+				return
+			}
+
+			protocol.injectEventPacket(record.data, { address: record.address, port: record.port }, new Date(record.time))
+		}
+	}
+}
@@ -0,0 +1,68 @@
+/**
+ * When a controller has `maxRequestsPerController` requests in flight, waiting `interactive` requests are sent first and
+ * `background` requests last. A request that has waited for `ZenConst.REQUEST_STARVATION_TIME` is sent next regardless.
+ */
+export type ZenRequestPriority = 'interactive' | 'normal' | 'background'
+
+interface ZenQueuedRequest {
+	wake: () => void
+	queuedAt: number
+}
+
+/** Priorities in the order they are served */
+const PRIORITIES: ZenRequestPriority[] = ['interactive', 'normal', 'background']
+
+/**
+ * Requests waiting for a free request slot on a controller. Higher priority requests are woken first, except that a
+ * request that has waited longer than the starvation time is woken before any other, so lower priorities still progress.
+ */
+export class ZenRequestQueue {
+	private lanes: Record<ZenRequestPriority, ZenQueuedRequest[]> = {
+		interactive: [],
+		normal: [],
+		background: [],
+	}
+	private starvationTime: number
+
+	/**
+	 * @param starvationTime how long a request may wait in ms before it is woken ahead of higher priority requests
+	 */
+	constructor(starvationTime: number) {
+		this.starvationTime = starvationTime
+	}
+
+	push(wake: () => void, priority: ZenRequestPriority): void {
+		this.lanes[priority].push({ wake, queuedAt: Date.now() })
+	}
+
+	/** Remove a waiting request without waking it. Returns `false` if the request isn't waiting. */
+	remove(wake: () => void): boolean {
+		for (const priority of PRIORITIES) {
+			const lane = this.lanes[priority]
+			const index = lane.findIndex(request => request.wake === wake)
+			if (index !== -1) {
+				lane.splice(index, 1)
+				return true
+			}
+		}
+		return false
+	}
+
+	/** Remove and return the next request to wake */
+	shift(): (() => void) | undefined {
+		const starvedBefore = Date.now() - this.starvationTime
+
+		// Each lane is in order of arrival, so only the first request in each lane can be the most starved
+		let next: ZenQueuedRequest[] | undefined
+		for (const priority of PRIORITIES) {
+			const lane = this.lanes[priority]
+			if (lane.length && lane[0].queuedAt <= starvedBefore && (!next || lane[0].queuedAt < next[0].queuedAt)) {
+				next = lane
+			}
+		}
+		if (!next) {
+			next = PRIORITIES.map(priority => this.lanes[priority]).find(lane => lane.length)
+		}
+		return next?.shift()?.wake
+	}
+}
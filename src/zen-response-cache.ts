@@ -0,0 +1,142 @@
+import { ZenAddress, ZenAddressType } from './zen-address.js'
+import { ZenCommand } from './zen-commands.js'
+import { ZenController } from './zen-controller.js'
+
+interface ZenCachedResponse {
+	responseCode: number
+	data: Buffer
+}
+
+interface ZenResponseCacheEntry {
+	controllerId: number
+	command: ZenCommand
+	/** The address byte of the request */
+	address: number
+	expires: number
+	response: ZenCachedResponse
+}
+
+/** Response codes for answers that are worth caching, see `ZenResponseCode` */
+const ANSWER = 0xA1
+const ERROR = 0xA3
+
+/** The address bytes that a request for an address may use */
+function addressBytes(address: ZenAddress): number[] {
+	switch (address.type) {
+	case ZenAddressType.ECG:
+		return [address.target]
+	case ZenAddressType.ECD:
+		return [address.target + 64]
+	case ZenAddressType.GROUP:
+		// Group queries use the group number, while group commands use the group number + 64
+		return [address.target, address.target + 64]
+	case ZenAddressType.BROADCAST:
+		return [255]
+	}
+}
+
+/** ECG address bytes, and group address bytes as used by DALI commands */
+const ECG_BYTES = Array.from({ length: 64 }, (_, i) => i)
+const GROUP_BYTES = Array.from({ length: 16 }, (_, i) => i + 64)
+
+/**
+ * The address bytes of DALI commands whose responses a change on an address may affect: the address itself, plus the
+ * groups and broadcast that may include an ECG, or the ECGs that may be members of a group. Returns `undefined` if any
+ * address may be affected.
+ */
+function affectedAddressBytes(address: ZenAddress): number[] | undefined {
+	switch (address.type) {
+	case ZenAddressType.ECG:
+		return [address.target, ...GROUP_BYTES, 255]
+	case ZenAddressType.GROUP:
+		return [...ECG_BYTES, address.target + 64, 255]
+	case ZenAddressType.ECD:
+		return [address.target + 64]
+	case ZenAddressType.BROADCAST:
+		return undefined
+	}
+}
+
+/** Caches responses to requests, keyed by controller, command and request data. */
+export class ZenResponseCache {
+	private commands: Set<ZenCommand>
+	private ttl: number
+	private entries = new Map<string, ZenResponseCacheEntry>()
+
+	/**
+	 * @param commands the commands whose responses are cached
+	 * @param ttl how long responses are cached in seconds
+	 */
+	constructor(commands: ZenCommand[], ttl: number) {
+		this.commands = new Set(commands)
+		this.ttl = ttl
+	}
+
+	get(controller: ZenController, command: ZenCommand, data: number[]): ZenCachedResponse | undefined {
+		if (!this.commands.has(command)) {
+			return undefined
+		}
+
+		const key = `${controller.id}.${command}.${data.join(',')}`
+		const entry = this.entries.get(key)
+		if (entry && entry.expires <= Date.now()) {
+			this.entries.delete(key)
+			return undefined
+		}
+		if (!entry) {
+			return undefined
+		}
+		// Copy the data so that callers can't modify the cached response, or each other's
+		return { responseCode: entry.response.responseCode, data: Buffer.from(entry.response.data) }
+	}
+
+	set(controller: ZenController, command: ZenCommand, data: number[], response: ZenCachedResponse): void {
+		if (!this.commands.has(command)) {
+			return
+		}
+		// Only cache answers, and errors that mean "none" such as a device without a label
+		if (response.responseCode !== ANSWER && !(response.responseCode === ERROR && !response.data.length)) {
+			return
+		}
+
+		this.entries.set(`${controller.id}.${command}.${data.join(',')}`, {
+			controllerId: controller.id,
+			command,
+			address: data[0] ?? 0,
+			expires: Date.now() + this.ttl * 1000,
+			response: { responseCode: response.responseCode, data: Buffer.from(response.data) },
+		})
+	}
+
+	/**
+	 * Remove cached responses for an address, for a controller, or for all controllers. Optionally only remove responses
+	 * to the given commands.
+	 */
+	clear(target?: ZenAddress | ZenController, commands?: ZenCommand[]): void {
+		const controllerId = target instanceof ZenAddress ? target.controller.id : target?.id
+		this._clear(controllerId, target instanceof ZenAddress ? addressBytes(target) : undefined, commands)
+	}
+
+	/**
+	 * Remove cached responses to DALI commands that a change on an address may have made stale, including responses for
+	 * groups that may include the address, or for the members of a group.
+	 */
+	clearAffected(address: ZenAddress, commands: ZenCommand[]): void {
+		this._clear(address.controller.id, affectedAddressBytes(address), commands)
+	}
+
+	private _clear(controllerId: number | undefined, bytes: number[] | undefined, commands: ZenCommand[] | undefined): void {
+		for (const [key, entry] of [...this.entries]) {
+			if (controllerId !== undefined && entry.controllerId !== controllerId) {
+				continue
+			}
+			if (bytes && !bytes.includes(entry.address)) {
+				continue
+			}
+			if (commands && !commands.includes(entry.command)) {
+				continue
+			}
+			this.entries.delete(key)
+		}
+	}
+}
@@ -0,0 +1,82 @@
+export interface ZenRttEstimate {
+	/** The smoothed round-trip time in ms */
+	srtt: number
+	/** The round-trip time variation in ms */
+	rttvar: number
+	/** The response timeout derived from the estimate in ms */
+	timeout: number
+	/** The number of round trips measured */
+	samples: number
+}
+
+/**
+ * Estimates a controller's round-trip time from measured responses, and derives a response timeout of SRTT + 4·RTTVAR
+ * within bounds, as TCP does in RFC 6298. The timeout doubles when a request times out, until a round trip is measured.
+ */
+export class ZenRttEstimator {
+	private srtt = 0
+	private rttvar = 0
+	private samples = 0
+	private backoffFactor = 1
+	private initialTimeout: number
+	private minTimeout: number
+	private maxTimeout: number
+
+	/**
+	 * @param initialTimeout the timeout in ms until a round trip has been measured
+	 * @param minTimeout the minimum timeout in ms
+	 * @param maxTimeout the maximum timeout in ms
+	 */
+	constructor(initialTimeout: number, minTimeout: number, maxTimeout: number) {
+		this.initialTimeout = initialTimeout
+		this.minTimeout = minTimeout
+		this.maxTimeout = maxTimeout
+	}
+
+	/** Add a measured round-trip time in ms. Don't measure requests that were retried, as the response may be to any attempt. */
+	sample(rtt: number): void {
+		if (!this.samples) {
+			this.srtt = rtt
+			this.rttvar = rtt / 2
+		} else {
+			this.rttvar = 0.75 * this.rttvar + 0.25 * Math.abs(this.srtt - rtt)
+			this.srtt = 0.875 * this.srtt + 0.125 * rtt
+		}
+		this.samples++
+		this.backoffFactor = 1
+	}
+
+	/** Called when a request times out, as the controller may be slower than estimated */
+	backoff(): void {
+		if (this.timeout() < this.maxTimeout) {
+			this.backoffFactor *= 2
+		}
+	}
+
+	timeout(): number {
+		const timeout = Math.max(this.minTimeout, this.samples ? this.srtt + 4 * this.rttvar : this.initialTimeout)
+		return Math.min(this.maxTimeout, Math.round(timeout * this.backoffFactor))
+	}
+
+	estimate(): ZenRttEstimate | null {
+		if (!this.samples) {
+			return null
+		}
+		return {
+			srtt: this.srtt,
+			rttvar: this.rttvar,
+			timeout: this.timeout(),
+			samples: this.samples,
+		}
+	}
+}
+
+/**
+ * The delay in ms before sending a retry, doubling with each retry up to a maximum. Half of the delay is random, so that
+ * requests that timed out together don't retry together.
+ * @param retry the number of the retry, starting from 1
+ */
+export function retryBackoff(retry: number, base: number, max: number): number {
+	const backoff = Math.min(max, base * Math.pow(2, retry - 1))
+	return backoff / 2 + Math.random() * backoff / 2
+}
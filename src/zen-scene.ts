@@ -1,4 +1,5 @@
 import { ZenAddress } from './zen-address.js'
+import { ZenColour } from './zen-colour.js'
 
 export class ZenScene {
 	group: ZenAddress
@@ -15,3 +16,20 @@ export class ZenScene {
 		return `ZenScene(${this.group}, ${this.scene}, ${this.label})`
 	}
 }
+
+/** A scene as programmed on a DALI address (ECG) */
+export interface ZenAddressScene {
+	scene: number
+	/** The scene level (0-254), or `null` if the address isn't part of the scene */
+	level: number | null
+	/** The scene colour, or `null` if the scene has no colour data */
+	colour: ZenColour | null
+}
+
+/** The scenes of a group and how each of its fixtures is programmed for those scenes */
+export interface ZenGroupSceneMatrix {
+	group: ZenAddress
+	scenes: ZenScene[]
+	/** The group's fixtures (ECG), with their programming for each of the group's scenes in the same order as `scenes` */
+	fixtures: { address: ZenAddress, scenes: ZenAddressScene[] }[]
+}
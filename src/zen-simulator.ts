@@ -0,0 +1,1037 @@
+import dgram, { RemoteInfo } from 'node:dgram'
+import { CMD, ZenCommand } from './zen-commands.js'
+import { checksum, encodeEventFrame, encodeResponseFrame } from './zen-codec.js'
+import { ZenErrorCode } from './zen-errors.js'
+import { ZenController } from './zen-controller.js'
+import { ZenInstanceType } from './zen-instance.js'
+import { ZenColour, ZenColourFeatures, ZenColourTempLimits } from './zen-colour.js'
+import { ZenConst } from './zen-const.js'
+import { ZenEventMode, ZenEventType } from './zen-events.js'
+import { ZenControlGearType } from './zen-gear.js'
+import { ZEN_PROFILE_SCHEDULED, ZenProfilePriority } from './zen-profile.js'
+import { ZenResponseCode } from './zen-protocol.js'
+
+interface Logger {
+	debug: (message: string) => void
+	info: (message: string) => void
+	warn: (message: string) => void
+}
+
+/** A simulated DALI control gear (ECG) */
+export interface ZenSimulatorGear {
+	label?: string | null
+	/** The current arc level, defaults to 0 */
+	level?: number
+	minLevel?: number
+	maxLevel?: number
+	/** The last non-zero arc level, used by GO TO LAST ACTIVE LEVEL */
+	lastActiveLevel?: number
+	/** Group numbers (0-15) that this gear is a member of */
+	groups?: number[]
+	/** Scene levels indexed by scene number (0-11), `null` if the gear isn't part of the scene */
+	sceneLevels?: (number | null)[]
+	/** Scene colours indexed by scene number (0-11), `null` if the scene has no colour data */
+	sceneColours?: (ZenColour | null)[]
+	lastScene?: number | null
+	colour?: ZenColour | null
+	colourFeatures?: ZenColourFeatures
+	colourTempLimits?: ZenColourTempLimits
+	/** The raw DALI status byte */
+	status?: number
+	/** Serial number as a 16 character hex string, or `null` to not answer serial number queries */
+	serial?: string | null
+	ean?: number
+	fittingNumber?: string | null
+	operatingMode?: number
+	cgTypes?: ZenControlGearType[]
+}
+
+/** A simulated instance (button, sensor etc) on a control device */
+export interface ZenSimulatorInstance {
+	instance: number
+	type: ZenInstanceType
+	label?: string | null
+	fittingNumber?: string | null
+	active?: boolean
+	error?: boolean
+	/** Primary, first and second group targets, `null` if not configured */
+	groups?: [number | null, number | null, number | null]
+	ledState?: boolean | null
+	occupancyTimers?: { deadtime: number, hold: number, report: number, lastDetect: number }
+}
+
+/** A simulated DALI control device (ECD) */
+export interface ZenSimulatorDevice {
+	label?: string | null
+	serial?: string | null
+	ean?: number
+	fittingNumber?: string | null
+	operatingMode?: number
+	instances?: ZenSimulatorInstance[]
+}
+
+export interface ZenSimulatorGroup {
+	label?: string | null
+	/** Scene labels keyed by the scene numbers (0-11) that the group has */
+	scenes?: Record<number, string | null>
+	occupied?: boolean
+}
+
+export interface ZenSimulatorProfile {
+	label?: string | null
+	enabled?: boolean
+	priority?: ZenProfilePriority
+}
+
+export interface ZenSimulatorSystemVariable {
+	name?: string | null
+	value: number | null
+}
+
+export interface ZenSimulatorEventFilter {
+	/** The DALI address as used by the TPI, i.e. ECG 0-63, ECD 64-127 or 255 for broadcast */
+	address: number
+	/** The instance number or 0xff for all instances */
+	instance: number
+	/** The bitmask of muted events */
+	eventMask: number
+}
+
+export interface ZenSimulatorModel {
+	label?: string | null
+	fittingNumber?: string | null
+	version?: [number, number, number]
+	daliReady?: boolean
+	startupComplete?: boolean
+	ecgs: Record<number, ZenSimulatorGear>
+	ecds: Record<number, ZenSimulatorDevice>
+	groups: Record<number, ZenSimulatorGroup>
+	profiles: Record<number, ZenSimulatorProfile>
+	/** The active profile number */
+	currentProfile?: number
+	/** The profile number most recently activated by the schedule */
+	scheduledProfile?: number
+	/** UTC seconds when a profile was last overridden */
+	lastOverriddenProfileTime?: number
+	/** UTC seconds when a profile was last scheduled */
+	lastScheduledProfileTime?: number
+	systemVariables: Record<number, ZenSimulatorSystemVariable>
+	eventFilters: ZenSimulatorEventFilter[]
+}
+
+export interface ZenSimulatorOptions {
+	/** The address to bind to, defaults to 127.0.0.1 */
+	host?: string
+	/** The port to bind to, defaults to 0 which picks a free port */
+	port?: number
+	macAddress?: string
+	model?: Partial<ZenSimulatorModel>
+	/** The interface to send multicast events from */
+	multicastInterface?: string
+	/** Delay in ms before each response is sent */
+	responseDelay?: number
+	logger?: Logger
+}
+
+/** The bit in a ZenEventMask that mutes each event type */
+const EVENT_MASK_BITS: Partial<Record<ZenEventType, number>> = {
+	[ZenEventType.BUTTON_PRESS_EVENT]: 0,
+	[ZenEventType.BUTTON_HOLD_EVENT]: 1,
+	[ZenEventType.ABSOLUTE_INPUT_EVENT]: 2,
+	[ZenEventType.LEVEL_CHANGE_EVENT]: 3,
+	[ZenEventType.GROUP_LEVEL_CHANGE_EVENT]: 4,
+	[ZenEventType.SCENE_CHANGE_EVENT]: 5,
+	[ZenEventType.OCCUPANCY_EVENT]: 6,
+	[ZenEventType.SYSTEM_VARIABLE_CHANGED_EVENT]: 7,
+	[ZenEventType.COLOUR_CHANGED_EVENT]: 8,
+	[ZenEventType.PROFILE_CHANGED_EVENT]: 9,
+}
+
+/** The number of event filters returned per QUERY_DALI_TPI_EVENT_FILTERS response */
+const EVENT_FILTERS_PER_PAGE = 15
+
+/** The number of addresses returned per QUERY_DALI_ADDRESSES_WITH_INSTANCES response */
+const ADDRESSES_WITH_INSTANCES_PER_PAGE = 60
+
+/** A response to send back to the client, or `null` to not respond */
+type SimulatorResponse = { responseCode: ZenResponseCode, data: number[] | Buffer } | null
+
+function stringData(value: string | null | undefined): SimulatorResponse {
+	if (value) {
+		return { responseCode: ZenResponseCode.ANSWER, data: Buffer.from(value, 'utf-8') }
+	} else {
+		// The ERROR response with no data is used to mean "none"
+		return { responseCode: ZenResponseCode.ERROR, data: [] }
+	}
+}
+
+function ok(): SimulatorResponse {
+	return { responseCode: ZenResponseCode.OK, data: [] }
+}
+
+function answer(data: number[] | Buffer): SimulatorResponse {
+	return { responseCode: ZenResponseCode.ANSWER, data }
+}
+
+function noAnswer(): SimulatorResponse {
+	return { responseCode: ZenResponseCode.NO_ANSWER, data: [] }
+}
+
+function error(code: number): SimulatorResponse {
+	return { responseCode: ZenResponseCode.ERROR, data: [code] }
+}
+
+function uint16(value: number): number[] {
+	return [(value >> 8) & 0xff, value & 0xff]
+}
+
+function uint32(value: number): number[] {
+	return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+/**
+ * An in-process simulation of a Zencontrol controller speaking the TPI over UDP, for testing without
+ * hardware. The simulator answers commands from its `model`, which may be inspected and modified
+ * while it is running, and emits events via multicast or unicast as configured by the client.
+ */
+export class ZenSimulator {
+	public model: ZenSimulatorModel
+	public macAddress: string
+	/** When `false` the simulator ignores all requests, as if the controller were unreachable */
+	public online = true
+	public responseDelay: number
+
+	private host: string
+	private port: number
+	private multicastInterface?: string
+	private socket: dgram.Socket | null = null
+	private logger: Logger
+
+	private eventMode = new ZenEventMode({ enabled: false, filtering: false, unicast: false, multicast: true })
+	private unicastAddress: string | null = null
+	private unicastPort = 0
+
+	constructor(opts: ZenSimulatorOptions = {}) {
+		this.host = opts.host ?? '127.0.0.1'
+		this.port = opts.port ?? 0
+		this.macAddress = (opts.macAddress ?? '5a430000a001').toLowerCase().replaceAll(':', '')
+		this.multicastInterface = opts.multicastInterface
+		this.responseDelay = opts.responseDelay ?? 0
+		this.logger = opts.logger ?? console
+		this.model = {
+			ecgs: {},
+			ecds: {},
+			groups: {},
+			profiles: {},
+			systemVariables: {},
+			eventFilters: [],
+			...opts.model,
+		}
+
+		if (!/^[0-9a-f]{12}$/.test(this.macAddress)) {
+			throw new Error(`Invalid MAC address: ${opts.macAddress}`)
+		}
+	}
+
+	/** Start listening for requests. */
+	async start(): Promise<void> {
+		if (this.socket) {
+			return
+		}
+
+		const socket = dgram.createSocket('udp4')
+		socket.on('message', (msg: Buffer, rinfo: RemoteInfo) => {
+			if (!this.online) {
+				return
+			}
+			try {
+				this._handleRequest(msg, rinfo)
+			} catch (error) {
+				this.logger.warn(`Simulator failed to handle request from ${rinfo.address}:${rinfo.port}: ${error instanceof Error ? error.message : error}`)
+			}
+		})
+		socket.on('error', (err) => {
+			this.logger.warn(`Simulator socket error: ${err}`)
+		})
+
+		await new Promise<void>((resolve, reject) => {
+			socket.once('error', reject)
+			socket.bind(this.port, this.host, () => {
+				socket.off('error', reject)
+				resolve()
+			})
+		})
+
+		socket.setMulticastLoopback(true)
+		if (this.multicastInterface) {
+			socket.setMulticastInterface(this.multicastInterface)
+		}
+		this.socket = socket
+	}
+
+	/** Stop listening for requests and release the socket. */
+	async stop(): Promise<void> {
+		const socket = this.socket
+		if (socket) {
+			this.socket = null
+			await new Promise<void>(resolve => socket.close(() => resolve()))
+		}
+	}
+
+	/** The address and port that the simulator is listening on. */
+	address(): { host: string, port: number } {
+		if (!this.socket) {
+			throw new Error('Simulator has not been started')
+		}
+		return { host: this.host, port: this.socket.address().port }
+	}
+
+	/** Create a ZenController to talk to this simulator. */
+	controller(id = 0): ZenController {
+		const { host, port } = this.address()
+		return new ZenController({ host, port, id, macAddress: this.macAddress })
+	}
+
+	/** Emit a button press event from an instance on a control device (0-63). */
+	pressButton(ecd: number, instance: number): void {
+		this.emitEvent(ZenEventType.BUTTON_PRESS_EVENT, ecd + 64, [instance])
+	}
+
+	/** Emit a button hold event from an instance on a control device (0-63). */
+	holdButton(ecd: number, instance: number): void {
+		this.emitEvent(ZenEventType.BUTTON_HOLD_EVENT, ecd + 64, [instance])
+	}
+
+	/** Emit an absolute input event (0-65535) from an instance on a control device (0-63). */
+	changeAbsoluteInput(ecd: number, instance: number, value: number): void {
+		this.emitEvent(ZenEventType.ABSOLUTE_INPUT_EVENT, ecd + 64, [instance, ...uint16(value)])
+	}
+
+	/** Emit an occupancy event from an instance on a control device (0-63). */
+	triggerOccupancy(ecd: number, instance: number): void {
+		this.emitEvent(ZenEventType.OCCUPANCY_EVENT, ecd + 64, [instance])
+	}
+
+	/** Emit a group occupancy event for a group (0-15). */
+	triggerGroupOccupancy(group: number, occupied = true): void {
+		const model = this.model.groups[group]
+		if (model) {
+			model.occupied = occupied
+		}
+		this.emitEvent(ZenEventType.GROUP_OCCUPANCY_EVENT, group, [0x00, occupied ? 0x01 : 0x00])
+	}
+
+	/** Set a system variable (0-147) and emit an event. */
+	setSystemVariable(variable: number, value: number | null): void {
+		const model = this.model.systemVariables[variable] ?? (this.model.systemVariables[variable] = { value: null })
+		model.value = value
+		if (value !== null) {
+			this.emitEvent(ZenEventType.SYSTEM_VARIABLE_CHANGED_EVENT, variable, [...uint32(value), 0x00])
+		}
+	}
+
+	/** Change the active profile and emit an event. */
+	changeProfile(profile: number, scheduled = false): void {
+		this.model.currentProfile = profile
+		if (scheduled) {
+			this.model.scheduledProfile = profile
+			this.model.lastScheduledProfileTime = Math.floor(Date.now() / 1000)
+		} else {
+			this.model.lastOverriddenProfileTime = Math.floor(Date.now() / 1000)
+		}
+		this.emitEvent(ZenEventType.PROFILE_CHANGED_EVENT, 0, uint16(profile))
+	}
+
+	/**
+	 * Emit an event packet to the configured multicast and/or unicast destination, if the client has
+	 * enabled event emission. Events muted by an event filter are not sent when filtering is enabled.
+	 */
+	emitEvent(eventType: ZenEventType, target: number, payload: number[] | Buffer): void {
+		const socket = this.socket
+		if (!socket || !this.eventMode.enabled) {
+			return
+		}
+		if (this.eventMode.filtering && this._isFiltered(eventType, target, payload)) {
+			return
+		}
+
+		const packet = encodeEventFrame({ macAddress: this.macAddress, target, eventCode: eventType, payload: Buffer.from(payload) })
+
+		const handleSend = (err: Error | null) => {
+			if (err) {
+				this.logger.warn(`Simulator failed to send event: ${err.message}`)
+			}
+		}
+
+		if (this.eventMode.multicast) {
+			socket.send(packet, ZenConst.MULTICAST_PORT, ZenConst.MULTICAST_GROUP, handleSend)
+		}
+		if (this.eventMode.unicast && this.unicastAddress && this.unicastPort) {
+			socket.send(packet, this.unicastPort, this.unicastAddress, handleSend)
+		}
+	}
+
+	private _isFiltered(eventType: ZenEventType, target: number, payload: number[] | Buffer): boolean {
+		const bit = EVENT_MASK_BITS[eventType]
+		if (bit === undefined) {
+			return false
+		}
+
+		const hasInstance = eventType === ZenEventType.BUTTON_PRESS_EVENT || eventType === ZenEventType.BUTTON_HOLD_EVENT ||
+			eventType === ZenEventType.ABSOLUTE_INPUT_EVENT || eventType === ZenEventType.OCCUPANCY_EVENT
+		return this.model.eventFilters.some(filter =>
+			(filter.address === 255 || filter.address === target) &&
+			(filter.instance === 0xff || (hasInstance && filter.instance === payload[0])) &&
+			(filter.eventMask & (1 << bit)) !== 0,
+		)
+	}
+
+	private _handleRequest(msg: Buffer, rinfo: RemoteInfo): void {
+		if (msg.length < 4 || msg[0] !== ZenConst.MAGIC_BYTE) {
+			this.logger.warn(`Simulator received invalid request from ${rinfo.address}:${rinfo.port}`)
+			return
+		}
+
+		const seq = msg[1]
+		const commandCode = msg[2]
+		const data = msg.subarray(3, msg.length - 1)
+
+		let response: SimulatorResponse
+		if (checksum(msg.subarray(0, msg.length - 1)) !== msg[msg.length - 1]) {
+			response = error(ZenErrorCode.CHECKSUM)
+		} else {
+			const command = (Object.keys(CMD) as ZenCommand[]).find(key => CMD[key] === commandCode)
+			response = command ? this._handleCommand(command, data) : error(ZenErrorCode.UNKNOWN_CMD)
+		}
+
+		if (!response) {
+			return
+		}
+
+		const packet = encodeResponseFrame({ responseCode: response.responseCode, seq, data: Buffer.from(response.data) })
+
+		const send = () => {
+			this.socket?.send(packet, rinfo.port, rinfo.address, (err) => {
+				if (err) {
+					this.logger.warn(`Simulator failed to send response to ${rinfo.address}:${rinfo.port}: ${err.message}`)
+				}
+			})
+		}
+		if (this.responseDelay > 0) {
+			setTimeout(send, this.responseDelay)
+		} else {
+			send()
+		}
+	}
+
+	private _handleCommand(command: ZenCommand, data: Buffer): SimulatorResponse {
+		const address = data[0] ?? 0
+		const arg = (i: number) => data[i] ?? 0
+
+		switch (command) {
+		// Controller
+		case 'QUERY_CONTROLLER_VERSION_NUMBER':
+			return answer(this.model.version ?? [1, 0, 0])
+		case 'QUERY_CONTROLLER_LABEL':
+			return stringData(this.model.label)
+		case 'QUERY_CONTROLLER_FITTING_NUMBER':
+			return stringData(this.model.fittingNumber)
+		case 'QUERY_IS_DALI_READY':
+			return (this.model.daliReady ?? true) ? ok() : noAnswer()
+		case 'QUERY_CONTROLLER_STARTUP_COMPLETE':
+			return (this.model.startupComplete ?? true) ? ok() : noAnswer()
+
+		// System variables
+		case 'SET_SYSTEM_VARIABLE': {
+			if (address > ZenConst.MAX_SYSVAR) {
+				return error(ZenErrorCode.INVALID_ARGS)
+			}
+			this.setSystemVariable(address, data.readInt16BE(2))
+			return ok()
+		}
+		case 'QUERY_SYSTEM_VARIABLE': {
+			if (address > ZenConst.MAX_SYSVAR) {
+				return error(ZenErrorCode.INVALID_ARGS)
+			}
+			const value = this.model.systemVariables[address]?.value ?? null
+			return answer(uint16(value === null ? 65535 : value))
+		}
+		case 'QUERY_SYSTEM_VARIABLE_NAME':
+			return stringData(this.model.systemVariables[address]?.name)
+
+		// TPI settings
+		case 'ENABLE_TPI_EVENT_EMIT':
+			this.eventMode = ZenEventMode.fromByte(address)
+			return answer([address])
+		case 'QUERY_TPI_EVENT_EMIT_STATE':
+			return answer([this.eventMode.bitmask()])
+		case 'SET_TPI_EVENT_UNICAST_ADDRESS': {
+			/* Dynamic frame: [length, port_hi, port_lo, ip1, ip2, ip3, ip4] */
+			if (data[0] !== 6 || data.length !== 7) {
+				return error(ZenErrorCode.INVALID_ARGS)
+			}
+			this.unicastPort = (data[1] << 8) | data[2]
+			this.unicastAddress = this.unicastPort ? `${data[3]}.${data[4]}.${data[5]}.${data[6]}` : null
+			return ok()
+		}
+		case 'QUERY_TPI_EVENT_UNICAST_ADDRESS': {
+			const ip = (this.unicastAddress ?? '0.0.0.0').split('.').map(str => Number(str))
+			return answer([this.eventMode.bitmask(), ...uint16(this.unicastPort), ...ip])
+		}
+		case 'DALI_ADD_TPI_EVENT_FILTER': {
+			const instance = arg(1)
+			const eventMask = (arg(2) << 8) | arg(3)
+			const existing = this.model.eventFilters.find(filter => filter.address === address && filter.instance === instance)
+			if (existing) {
+				existing.eventMask |= eventMask
+			} else if (this.model.eventFilters.length >= ZenConst.MAX_EVENT_FILTERS) {
+				return error(ZenErrorCode.MAX_LIMIT)
+			} else {
+				this.model.eventFilters.push({ address, instance, eventMask })
+			}
+			return answer([0x01])
+		}
+		case 'DALI_CLEAR_TPI_EVENT_FILTERS': {
+			const instance = arg(1)
+			const eventMask = (arg(2) << 8) | arg(3)
+			for (const filter of this.model.eventFilters) {
+				if (filter.address === address && filter.instance === instance) {
+					filter.eventMask &= ~eventMask
+				}
+			}
+			this.model.eventFilters = this.model.eventFilters.filter(filter => filter.eventMask !== 0)
+			return answer([0x01])
+		}
+		case 'QUERY_DALI_TPI_EVENT_FILTERS': {
+			const startAt = arg(1)
+			const instance = arg(3)
+			const filters = this.model.eventFilters.filter(filter =>
+				(address === 255 || filter.address === address) && (instance === 0xff || filter.instance === instance),
+			).slice(startAt, startAt + EVENT_FILTERS_PER_PAGE)
+			if (!filters.length) {
+				return noAnswer()
+			}
+			const result = [this.eventMode.bitmask()]
+			for (const filter of filters) {
+				result.push(filter.address, filter.instance, ...uint16(filter.eventMask))
+			}
+			return answer(result)
+		}
+
+		// Any address
+		case 'QUERY_OPERATING_MODE_BY_ADDRESS': {
+			const device = this._ecgOrEcd(address)
+			return device ? answer([device.operatingMode ?? 0]) : error(ZenErrorCode.UNKNOWN_TARGET)
+		}
+		case 'QUERY_DALI_DEVICE_LABEL':
+			return stringData(this._ecgOrEcd(address)?.label)
+		case 'QUERY_DALI_SERIAL': {
+			const device = this._ecgOrEcd(address)
+			if (!device) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			if (device.serial === null) {
+				return noAnswer()
+			}
+			return answer(Buffer.from((device.serial ?? '').padStart(16, '0'), 'hex'))
+		}
+		case 'QUERY_DALI_FITTING_NUMBER':
+			return stringData(this._ecgOrEcd(address)?.fittingNumber)
+		case 'QUERY_DALI_EAN': {
+			const device = this._ecgOrEcd(address)
+			if (!device) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const ean = device.ean ?? 0
+			const result: number[] = []
+			for (let i = 5; i >= 0; i--) {
+				result.push(Math.floor(ean / Math.pow(2, 8 * i)) & 0xff)
+			}
+			return answer(result)
+		}
+
+		// Groups / Group-scenes
+		case 'QUERY_GROUP_MEMBERSHIP_BY_ADDRESS': {
+			const gear = this.model.ecgs[address]
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			let groups = 0
+			for (const group of gear.groups ?? []) {
+				groups |= 1 << group
+			}
+			return answer(uint16(groups))
+		}
+		case 'QUERY_GROUP_NUMBERS':
+			return answer(this._groupNumbers())
+		case 'QUERY_GROUP_LABEL':
+			return stringData(this.model.groups[address]?.label)
+		case 'QUERY_SCENE_NUMBERS_FOR_GROUP': {
+			const group = this.model.groups[address]
+			if (!group) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			let scenes = 0
+			for (const scene of Object.keys(group.scenes ?? {})) {
+				scenes |= 1 << Number(scene)
+			}
+			return answer(uint16(scenes))
+		}
+		case 'QUERY_SCENE_LABEL_FOR_GROUP':
+			return stringData(this.model.groups[address]?.scenes?.[arg(1)])
+		case 'QUERY_GROUP_BY_NUMBER': {
+			const group = this.model.groups[address]
+			if (!group) {
+				return noAnswer()
+			}
+			return answer([address, group.occupied ? 0x01 : 0x00, this._level(this._gearForGroup(address))])
+		}
+
+		// Profiles
+		case 'QUERY_PROFILE_INFORMATION': {
+			const result = [
+				...uint16(this.model.currentProfile ?? 0),
+				...uint16(this.model.scheduledProfile ?? 0),
+				...uint32(this.model.lastOverriddenProfileTime ?? 0),
+				...uint32(this.model.lastScheduledProfileTime ?? 0),
+			]
+			for (const number of this._profileNumbers()) {
+				const profile = this.model.profiles[number]
+				const behaviour = ((profile.enabled ?? true) ? 0x00 : 0x01) | (((profile.priority ?? 0) & 0x03) << 1)
+				result.push(...uint16(number), behaviour)
+			}
+			return answer(result)
+		}
+		case 'QUERY_PROFILE_NUMBERS':
+			return answer(this._profileNumbers().flatMap(uint16))
+		case 'QUERY_PROFILE_LABEL':
+			return stringData(this.model.profiles[(arg(2) << 8) | arg(3)]?.label)
+		case 'QUERY_CURRENT_PROFILE_NUMBER':
+			return answer(uint16(this.model.currentProfile ?? 0))
+		case 'CHANGE_PROFILE_NUMBER': {
+			const profile = (arg(2) << 8) | arg(3)
+			if (profile === ZEN_PROFILE_SCHEDULED) {
+				/* Return to the scheduled profile */
+				this.changeProfile(this.model.scheduledProfile ?? 0, true)
+				return ok()
+			}
+			if (!this.model.profiles[profile]) {
+				return error(ZenErrorCode.INVALID_ARGS)
+			}
+			this.changeProfile(profile)
+			return ok()
+		}
+
+		// Instances
+		case 'QUERY_DALI_ADDRESSES_WITH_INSTANCES': {
+			const startAt = arg(3)
+			const addresses = Object.keys(this.model.ecds)
+				.map(Number)
+				.filter(ecd => this.model.ecds[ecd].instances?.length)
+				.sort((a, b) => a - b)
+				.map(ecd => ecd + 64)
+				.filter(ecd => ecd >= startAt)
+				.slice(0, ADDRESSES_WITH_INSTANCES_PER_PAGE)
+			return addresses.length ? answer(addresses) : noAnswer()
+		}
+		case 'QUERY_INSTANCES_BY_ADDRESS': {
+			const device = this._ecd(address)
+			if (!device) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const instances = device.instances ?? []
+			if (!instances.length) {
+				return noAnswer()
+			}
+			return answer(instances.flatMap(instance => [
+				instance.instance,
+				instance.type,
+				((instance.active ?? true) ? 0x02 : 0x00) | (instance.error ? 0x01 : 0x00),
+				0x00,
+			]))
+		}
+		case 'QUERY_DALI_INSTANCE_FITTING_NUMBER':
+			return stringData(this._instance(address, arg(3))?.fittingNumber)
+		case 'QUERY_DALI_INSTANCE_LABEL':
+			return stringData(this._instance(address, arg(3))?.label)
+		case 'QUERY_INSTANCE_GROUPS': {
+			const instance = this._instance(address, arg(3))
+			if (!instance) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			return answer((instance.groups ?? [null, null, null]).map(group => group ?? 0xff))
+		}
+		case 'QUERY_OCCUPANCY_INSTANCE_TIMERS': {
+			const instance = this._instance(address, arg(3))
+			if (!instance || instance.type !== ZenInstanceType.OCCUPANCY_SENSOR) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const timers = instance.occupancyTimers ?? { deadtime: 0, hold: 0, report: 0, lastDetect: 0 }
+			return answer([timers.deadtime, timers.hold, timers.report, ...uint16(timers.lastDetect)])
+		}
+		case 'OVERRIDE_DALI_BUTTON_LED_STATE': {
+			const instance = this._instance(address, arg(3))
+			if (!instance) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			instance.ledState = arg(2) === 0x02
+			return ok()
+		}
+		case 'QUERY_LAST_KNOWN_DALI_BUTTON_LED_STATE': {
+			const instance = this._instance(address, arg(3))
+			if (!instance) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			if (instance.ledState === undefined || instance.ledState === null) {
+				return noAnswer()
+			}
+			return answer([instance.ledState ? 0x02 : 0x01])
+		}
+
+		// ECG (Lights)
+		case 'QUERY_CONTROL_GEAR_DALI_ADDRESSES': {
+			const result = [0, 0, 0, 0, 0, 0, 0, 0]
+			for (const ecg of Object.keys(this.model.ecgs).map(Number)) {
+				result[Math.floor(ecg / 8)] |= 1 << (ecg % 8)
+			}
+			return answer(result)
+		}
+		case 'DALI_QUERY_LEVEL': {
+			const gear = this._gearForTarget(address)
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			return answer([this._level(gear)])
+		}
+		case 'DALI_QUERY_CG_TYPE': {
+			const gear = this.model.ecgs[address]
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const result = [0, 0, 0, 0]
+			for (const type of gear.cgTypes ?? [ZenControlGearType.DALI_HW_LED]) {
+				result[Math.floor(type / 8)] |= 1 << (type % 8)
+			}
+			return answer(result)
+		}
+		case 'QUERY_DALI_COLOUR_FEATURES': {
+			const gear = this.model.ecgs[address]
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const features = gear.colourFeatures
+			if (!features) {
+				return noAnswer()
+			}
+			return answer([
+				(features.supportsXy ? 0x01 : 0x00) |
+				(features.supportsTunable ? 0x02 : 0x00) |
+				((features.primaryCount & 0x07) << 2) |
+				((features.rgbwafChannels & 0x07) << 5),
+			])
+		}
+		case 'QUERY_DALI_COLOUR_TEMP_LIMITS': {
+			const limits = this.model.ecgs[address]?.colourTempLimits
+			if (!limits) {
+				return noAnswer()
+			}
+			return answer([
+				...uint16(limits.physicalWarmest),
+				...uint16(limits.physicalCoolest),
+				...uint16(limits.softWarmest),
+				...uint16(limits.softCoolest),
+				...uint16(limits.step),
+			])
+		}
+		case 'DALI_QUERY_CONTROL_GEAR_STATUS': {
+			const gear = this._gearForTarget(address)
+			if (!gear || !gear.length) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			let status = 0
+			for (const g of gear) {
+				status |= this._status(g)
+			}
+			return answer([status])
+		}
+		case 'QUERY_DALI_COLOUR': {
+			const colour = this.model.ecgs[address]?.colour
+			return colour ? answer(colour.toBytes()) : noAnswer()
+		}
+		case 'DALI_COLOUR': {
+			/* Colour frame: [address, level, ...colour bytes] */
+			const level = arg(1)
+			let colour: ZenColour
+			try {
+				colour = ZenColour.fromBytes(data.subarray(2))
+			} catch (e) {
+				return error(ZenErrorCode.INVALID_ARGS)
+			}
+			return this._control(address, gear => {
+				gear.colour = colour
+				return level === 255 ? undefined : level
+			}, colour)
+		}
+		case 'DALI_INHIBIT':
+			return this._gearForTarget(address) ? ok() : error(ZenErrorCode.UNKNOWN_TARGET)
+		case 'DALI_ARC_LEVEL': {
+			const level = arg(3)
+			if (level > ZenConst.MAX_LEVEL) {
+				return error(ZenErrorCode.INVALID_ARGS)
+			}
+			return this._control(address, () => level)
+		}
+		case 'DALI_CUSTOM_FADE': {
+			const level = arg(1)
+			if (level > ZenConst.MAX_LEVEL) {
+				return error(ZenErrorCode.INVALID_ARGS)
+			}
+			return this._control(address, () => level)
+		}
+		case 'DALI_ON_STEP_UP':
+			return this._control(address, gear => (gear.level ?? 0) === 0 ? gear.minLevel ?? 1 : (gear.level ?? 0) + 1)
+		case 'DALI_STEP_DOWN_OFF':
+			return this._control(address, gear => (gear.level ?? 0) <= (gear.minLevel ?? 1) ? 0 : (gear.level ?? 0) - 1)
+		case 'DALI_UP':
+			return this._control(address, gear => (gear.level ?? 0) === 0 ? 0 : (gear.level ?? 0) + 1)
+		case 'DALI_DOWN':
+			return this._control(address, gear => (gear.level ?? 0) === 0 ? 0 : Math.max(gear.minLevel ?? 1, (gear.level ?? 0) - 1))
+		case 'DALI_RECALL_MAX':
+			return this._control(address, gear => gear.maxLevel ?? ZenConst.MAX_LEVEL)
+		case 'DALI_RECALL_MIN':
+			return this._control(address, gear => gear.minLevel ?? 1)
+		case 'DALI_OFF':
+			return this._control(address, () => 0)
+		case 'DALI_GO_TO_LAST_ACTIVE_LEVEL':
+			return this._control(address, gear => gear.lastActiveLevel ?? gear.maxLevel ?? ZenConst.MAX_LEVEL)
+		case 'DALI_STOP_FADE':
+		case 'DALI_ENABLE_DAPC_SEQ': {
+			const gear = this._gearForTarget(address)
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			return command === 'DALI_ENABLE_DAPC_SEQ' ? answer([0x01]) : ok()
+		}
+		case 'DALI_QUERY_MIN_LEVEL': {
+			const gear = this.model.ecgs[address]
+			return gear ? answer([gear.minLevel ?? 1]) : error(ZenErrorCode.UNKNOWN_TARGET)
+		}
+		case 'DALI_QUERY_MAX_LEVEL': {
+			const gear = this.model.ecgs[address]
+			return gear ? answer([gear.maxLevel ?? ZenConst.MAX_LEVEL]) : error(ZenErrorCode.UNKNOWN_TARGET)
+		}
+		case 'DALI_QUERY_FADE_RUNNING': {
+			/* Level changes in the simulator are instantaneous */
+			return this.model.ecgs[address] ? answer([0x00]) : error(ZenErrorCode.UNKNOWN_TARGET)
+		}
+
+		// Scenes
+		case 'QUERY_SCENE_NUMBERS_BY_ADDRESS': {
+			const gear = this.model.ecgs[address]
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const scenes: number[] = []
+			for (let scene = 0; scene < ZenConst.MAX_SCENE; scene++) {
+				if (gear.sceneLevels?.[scene] != null) {
+					scenes.push(scene)
+				}
+			}
+			return answer(scenes)
+		}
+		case 'QUERY_SCENE_LEVELS_BY_ADDRESS': {
+			const gear = this.model.ecgs[address]
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const levels: number[] = []
+			for (let scene = 0; scene < ZenConst.MAX_SCENE; scene++) {
+				levels.push(gear.sceneLevels?.[scene] ?? 255)
+			}
+			return answer(levels)
+		}
+		case 'QUERY_COLOUR_SCENE_MEMBERSHIP_BY_ADDR': {
+			const gear = this.model.ecgs[address]
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const scenes: number[] = []
+			for (let scene = 0; scene < ZenConst.MAX_SCENE; scene++) {
+				if (gear.sceneColours?.[scene]) {
+					scenes.push(scene)
+				}
+			}
+			return scenes.length ? answer(scenes) : noAnswer()
+		}
+		case 'QUERY_COLOUR_SCENE_0_7_DATA_FOR_ADDR':
+		case 'QUERY_COLOUR_SCENE_8_11_DATA_FOR_ADDR': {
+			const gear = this.model.ecgs[address]
+			if (!gear) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const [from, to] = command === 'QUERY_COLOUR_SCENE_0_7_DATA_FOR_ADDR' ? [0, 8] : [8, ZenConst.MAX_SCENE]
+			const result: number[] = []
+			for (let scene = from; scene < to; scene++) {
+				const colour = gear.sceneColours?.[scene]
+				result.push(...(colour ? colour.toBytes() : [0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]))
+			}
+			return answer(result)
+		}
+		case 'DALI_SCENE': {
+			const scene = arg(3)
+			if (scene >= ZenConst.MAX_SCENE) {
+				return error(ZenErrorCode.INVALID_ARGS)
+			}
+			const response = this._control(address, gear => {
+				gear.lastScene = scene
+				const colour = gear.sceneColours?.[scene]
+				if (colour) {
+					gear.colour = colour
+				}
+				return gear.sceneLevels?.[scene] ?? undefined
+			})
+			if (response?.responseCode === ZenResponseCode.OK && address !== 255) {
+				this.emitEvent(ZenEventType.SCENE_CHANGE_EVENT, address, [scene])
+			}
+			return response
+		}
+		case 'DALI_QUERY_LAST_SCENE': {
+			const gear = this._gearForTarget(address)
+			if (!gear || !gear.length) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const scene = gear[0].lastScene
+			return scene != null ? answer([scene]) : noAnswer()
+		}
+		case 'DALI_QUERY_LAST_SCENE_IS_CURRENT': {
+			const gear = this._gearForTarget(address)
+			if (!gear || !gear.length) {
+				return error(ZenErrorCode.UNKNOWN_TARGET)
+			}
+			const isCurrent = gear.every(g => g.lastScene != null && g.sceneLevels?.[g.lastScene] === (g.level ?? 0))
+			return answer([isCurrent ? 0x01 : 0x00])
+		}
+
+		default:
+			return error(ZenErrorCode.UNKNOWN_CMD)
+		}
+	}
+
+	/**
+	 * Apply a control command to a DALI target (ECG 0-63, group 64-79 or broadcast 255). The `apply` function
+	 * returns the new level for each gear, or `undefined` to leave it unchanged.
+	 */
+	private _control(address: number, apply: (gear: ZenSimulatorGear) => number | undefined, colour?: ZenColour): SimulatorResponse {
+		const gear = this._gearForTarget(address)
+		if (!gear) {
+			return error(ZenErrorCode.UNKNOWN_TARGET)
+		}
+
+		for (const g of gear) {
+			const level = apply(g)
+			if (level !== undefined) {
+				this._setLevel(g, level)
+			}
+			if (colour) {
+				this.emitEvent(ZenEventType.COLOUR_CHANGED_EVENT, this._ecgNumber(g), colour.toBytes())
+			}
+		}
+
+		if (address >= 64 && address < 64 + ZenConst.MAX_GROUP) {
+			const group = address - 64
+			this.emitEvent(ZenEventType.GROUP_LEVEL_CHANGE_EVENT, group, [this._level(gear)])
+			if (colour) {
+				this.emitEvent(ZenEventType.COLOUR_CHANGED_EVENT, address, colour.toBytes())
+			}
+		}
+		return ok()
+	}
+
+	private _setLevel(gear: ZenSimulatorGear, level: number): void {
+		if (level !== 0) {
+			level = Math.min(gear.maxLevel ?? ZenConst.MAX_LEVEL, Math.max(gear.minLevel ?? 1, level))
+			gear.lastActiveLevel = level
+		}
+		if (level !== (gear.level ?? 0)) {
+			gear.level = level
+			this.emitEvent(ZenEventType.LEVEL_CHANGE_EVENT, this._ecgNumber(gear), [level])
+		}
+	}
+
+	/** The common level of the gear, or 255 if they have mixed levels */
+	private _level(gear: ZenSimulatorGear[]): number {
+		const levels = new Set(gear.map(g => g.level ?? 0))
+		if (levels.size === 1) {
+			return levels.values().next().value!
+		} else if (levels.size === 0) {
+			return 0
+		} else {
+			return 255
+		}
+	}
+
+	private _status(gear: ZenSimulatorGear): number {
+		let status = gear.status ?? 0
+		if ((gear.level ?? 0) > 0) {
+			status |= 0x04
+		} else {
+			status &= ~0x04
+		}
+		return status
+	}
+
+	private _ecgNumber(gear: ZenSimulatorGear): number {
+		for (const [ecg, candidate] of Object.entries(this.model.ecgs)) {
+			if (candidate === gear) {
+				return Number(ecg)
+			}
+		}
+		throw new Error('Gear is not in the model')
+	}
+
+	/** Find the gear for an ECG (0-63), group (64-79) or broadcast (255) target, or `null` if the target doesn't exist. */
+	private _gearForTarget(address: number): ZenSimulatorGear[] | null {
+		if (address < 64) {
+			const gear = this.model.ecgs[address]
+			return gear ? [gear] : null
+		} else if (address < 64 + ZenConst.MAX_GROUP) {
+			return this._gearForGroup(address - 64)
+		} else if (address === 255) {
+			return Object.values(this.model.ecgs)
+		} else {
+			return null
+		}
+	}
+
+	private _gearForGroup(group: number): ZenSimulatorGear[] {
+		return Object.values(this.model.ecgs).filter(gear => gear.groups?.includes(group))
+	}
+
+	private _groupNumbers(): number[] {
+		const groups = new Set(Object.keys(this.model.groups).map(Number))
+		for (const gear of Object.values(this.model.ecgs)) {
+			for (const group of gear.groups ?? []) {
+				groups.add(group)
+			}
+		}
+		return [...groups].sort((a, b) => a - b)
+	}
+
+	private _profileNumbers(): number[] {
+		return Object.keys(this.model.profiles).map(Number).sort((a, b) => a - b)
+	}
+
+	/** Find an ECG (0-63) or ECD (64-127) */
+	private _ecgOrEcd(address: number): ZenSimulatorGear | ZenSimulatorDevice | undefined {
+		return address < 64 ? this.model.ecgs[address] : this._ecd(address)
+	}
+
+	/** Find an ECD by its TPI address (64-127) */
+	private _ecd(address: number): ZenSimulatorDevice | undefined {
+		return address >= 64 && address < 128 ? this.model.ecds[address - 64] : undefined
+	}
+
+	private _instance(address: number, instance: number): ZenSimulatorInstance | undefined {
+		return this._ecd(address)?.instances?.find(candidate => candidate.instance === instance)
+	}
+}
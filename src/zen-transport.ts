@@ -0,0 +1,120 @@
+import dgram from 'node:dgram'
+import { ZenConst } from './zen-const.js'
+
+/** Where a packet was received from */
+export interface ZenRemoteInfo {
+	address: string
+	port: number
+}
+
+export interface ZenTransportHandlers {
+	/** Called with each packet received */
+	message: (packet: Buffer, remote: ZenRemoteInfo) => void
+	/** Called when the transport reports an error that doesn't close the channel */
+	error: (error: Error) => void
+	/** Called when the channel closes, whether or not `close` was called */
+	close: () => void
+}
+
+/** Sends command packets to controllers and receives their responses */
+export interface ZenCommandChannel {
+	send(packet: Buffer, host: string, port: number): Promise<void>
+	close(): Promise<void>
+}
+
+/** Receives event packets from controllers */
+export interface ZenEventChannel {
+	/** The local port that events are received on, used to set a controller's unicast event address */
+	port(): number
+	close(): Promise<void>
+}
+
+export interface ZenEventChannelOptions {
+	/** Receive events sent directly to `listenIp` and `listenPort`, otherwise receive multicast events */
+	unicast: boolean
+	listenIp: string
+	listenPort: number
+}
+
+/**
+ * Carries TPI packets between `ZenProtocol` and controllers. Framing, sequence numbers, checksums and retries are
+ * handled by the protocol, so a transport only needs to deliver packets.
+ */
+export interface ZenTransport {
+	/** Open the channel used for commands. Packets may be sent immediately. */
+	openCommandChannel(handlers: ZenTransportHandlers): ZenCommandChannel
+	/** Open a channel to receive events. Resolves once the channel is ready to receive events. */
+	openEventChannel(options: ZenEventChannelOptions, handlers: ZenTransportHandlers): Promise<ZenEventChannel>
+}
+
+function closeSocket(socket: dgram.Socket): Promise<void> {
+	return new Promise((resolve) => {
+		try {
+			socket.close(() => resolve())
+		} catch {
+			// The socket is already closed
+			resolve()
+		}
+	})
+}
+
+/** The default transport, which talks to controllers directly over UDP */
+export class ZenUdpTransport implements ZenTransport {
+	openCommandChannel(handlers: ZenTransportHandlers): ZenCommandChannel {
+		const socket = dgram.createSocket('udp4')
+		socket.on('message', handlers.message)
+		socket.on('error', handlers.error)
+		socket.on('close', handlers.close)
+
+		return {
+			send: (packet, host, port) => new Promise((resolve, reject) => {
+				socket.send(packet, 0, packet.length, port, host, (err) => {
+					if (err) {
+						reject(err)
+					} else {
+						resolve()
+					}
+				})
+			}),
+			close: () => closeSocket(socket),
+		}
+	}
+
+	openEventChannel(options: ZenEventChannelOptions, handlers: ZenTransportHandlers): Promise<ZenEventChannel> {
+		const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+
+		return new Promise((resolve, reject) => {
+			const bindFailed = (err: Error) => {
+				closeSocket(socket)
+				reject(err)
+			}
+			socket.once('error', bindFailed)
+
+			const listening = () => {
+				if (!options.unicast) {
+					try {
+						socket.addMembership(ZenConst.MULTICAST_GROUP)
+					} catch (error) {
+						bindFailed(error as Error)
+						return
+					}
+				}
+
+				socket.off('error', bindFailed)
+				socket.on('error', handlers.error)
+				socket.on('message', handlers.message)
+				socket.on('close', handlers.close)
+				resolve({
+					port: () => socket.address().port,
+					close: () => closeSocket(socket),
+				})
+			}
+
+			if (options.unicast) {
+				socket.bind(options.listenPort, options.listenIp, listening)
+			} else {
+				socket.bind(ZenConst.MULTICAST_PORT, listening)
+			}
+		})
+	}
+}
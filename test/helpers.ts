@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, expect, vi } from 'vitest'
+import { ZenController } from '../src/zen-controller.js'
+import { ZenProtocol, ZenProtocolOptions } from '../src/zen-protocol.js'
+import { ZenSimulator, ZenSimulatorModel } from '../src/zen-simulator.js'
+
+/** A logger that discards everything, to keep test output quiet */
+export const logger = { debug() {}, info() {}, warn() {} }
+
+export interface ZenSimulatorFixture {
+	simulator: ZenSimulator
+	controller: ZenController
+	/**
+	 * Create a protocol talking to the simulator, closed after the test. Defaults to short timeouts, no retries, and
+	 * unicast events to a free local port.
+	 */
+	protocol(options?: ZenProtocolOptions): ZenProtocol
+}
+
+/**
+ * Start a simulator with a fresh model before each test, and stop it and any protocols created with `protocol` after.
+ * @param model returns the simulator's model, called before each test
+ */
+export function useSimulator(model: () => Partial<ZenSimulatorModel> = () => ({})): ZenSimulatorFixture {
+	const protocols: ZenProtocol[] = []
+	const fixture: ZenSimulatorFixture = {
+		simulator: undefined as unknown as ZenSimulator,
+		controller: undefined as unknown as ZenController,
+		protocol(options = {}) {
+			const result = new ZenProtocol({ controllers: [fixture.controller], logger, adaptiveTimeouts: false, responseTimeout: 100, maxRetries: 1, unicast: true, listenIp: '127.0.0.1', listenPort: 0, ...options })
+			protocols.push(result)
+			return result
+		},
+	}
+
+	beforeEach(async () => {
+		fixture.simulator = new ZenSimulator({ logger, model: model() })
+		await fixture.simulator.start()
+		fixture.controller = fixture.simulator.controller()
+	})
+
+	afterEach(async () => {
+		for (const zc of protocols.splice(0)) {
+			await zc.close({ drainTimeout: 0 })
+		}
+		await fixture.simulator.stop()
+	})
+
+	return fixture
+}
+
+/** Wait for a time in ms */
+export function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/** Start event monitoring, and wait until the controller is sending events to the protocol */
+export async function startEventMonitoring(zc: ZenProtocol, controller: ZenController): Promise<void> {
+	await zc.startEventMonitoring()
+	await vi.waitFor(async () => {
+		expect((await zc.queryTpiEventEmitState(controller))?.enabled).toBe(true)
+	})
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenAbortError, ZenTimeoutError } from '../src/zen-errors.js'
+import { useSimulator } from './helpers.js'
+
+describe('request cancellation', () => {
+	const fixture = useSimulator(() => ({
+		label: 'Simulator',
+		ecgs: {
+			0: { label: 'Desk' },
+			1: { label: 'Door' },
+		},
+	}))
+
+	it('rejects an already aborted request without sending it', async () => {
+		const zc = fixture.protocol()
+		const controller = new AbortController()
+		controller.abort()
+		fixture.simulator.online = false
+		const started = Date.now()
+		await expect(zc.queryControllerLabel(fixture.controller, { signal: controller.signal })).rejects.toBeInstanceOf(ZenAbortError)
+		expect(Date.now() - started).toBeLessThan(50)
+	})
+
+	it('rejects a request in flight when aborted', async () => {
+		const zc = fixture.protocol({ responseTimeout: 1000 })
+		fixture.simulator.responseDelay = 500
+		const controller = new AbortController()
+		const label = zc.queryControllerLabel(fixture.controller, { signal: controller.signal })
+		setTimeout(() => controller.abort(), 20)
+		const started = Date.now()
+		await expect(label).rejects.toBeInstanceOf(ZenAbortError)
+		expect(Date.now() - started).toBeLessThan(400)
+	})
+
+	it('stops a compound command at its next request when aborted', async () => {
+		const zc = fixture.protocol()
+		const controller = new AbortController()
+		const queryDaliDeviceLabel = vi.spyOn(zc, 'queryDaliDeviceLabel').mockImplementation(async (address) => {
+			controller.abort()
+			return `ECG ${address.target}`
+		})
+		await expect(zc.queryDeviceIdentities(fixture.controller, { signal: controller.signal })).rejects.toBeInstanceOf(ZenAbortError)
+		expect(queryDaliDeviceLabel).toHaveBeenCalledTimes(1)
+	})
+
+	it('stops waiting for the controller to be ready when aborted', async () => {
+		const zc = fixture.protocol()
+		fixture.simulator.model.startupComplete = false
+		const controller = new AbortController()
+		setTimeout(() => controller.abort(), 50)
+		await expect(zc.waitUntilReady(fixture.controller, { interval: 20, timeout: 2000, signal: controller.signal })).rejects.toBeInstanceOf(ZenAbortError)
+	})
+})
+
+describe('per request timeouts', () => {
+	const fixture = useSimulator(() => ({ label: 'Simulator' }))
+
+	it('waits for each response for the given timeout', async () => {
+		const zc = fixture.protocol({ responseTimeout: 50 })
+		fixture.simulator.responseDelay = 150
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+		expect(await zc.queryControllerLabel(fixture.controller, { timeout: 500 })).toBe('Simulator')
+	})
+
+	it('retries the given number of times', async () => {
+		const zc = fixture.protocol()
+		fixture.simulator.online = false
+		const started = Date.now()
+		await expect(zc.queryControllerLabel(fixture.controller, { timeout: 50, retries: 3 })).rejects.toBeInstanceOf(ZenTimeoutError)
+		expect(Date.now() - started).toBeGreaterThanOrEqual(140)
+	})
+})
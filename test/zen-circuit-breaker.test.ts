@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { ZenControllerUnavailableError, ZenTimeoutError } from '../src/zen-errors.js'
+import { sleep, useSimulator } from './helpers.js'
+
+describe('circuit breaker', () => {
+	const fixture = useSimulator(() => ({ label: 'Simulator' }))
+
+	it('is off by default', async () => {
+		const zc = fixture.protocol()
+		fixture.simulator.online = false
+		for (let i = 0; i < 4; i++) {
+			await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+		}
+	})
+
+	it('fails fast after consecutive failures until a probe succeeds', async () => {
+		const zc = fixture.protocol({ circuitBreaker: { failureThreshold: 2, probeInterval: 200 } })
+		fixture.simulator.online = false
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenControllerUnavailableError)
+
+		fixture.simulator.online = true
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenControllerUnavailableError)
+		await sleep(250)
+		expect(await zc.queryControllerLabel(fixture.controller)).toBe('Simulator')
+		expect(await zc.queryControllerLabel(fixture.controller)).toBe('Simulator')
+	})
+
+	it('keeps failing fast when a probe fails', async () => {
+		const zc = fixture.protocol({ circuitBreaker: { failureThreshold: 1, probeInterval: 100 } })
+		fixture.simulator.online = false
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+		await sleep(150)
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenControllerUnavailableError)
+	})
+})
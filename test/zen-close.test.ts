@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenClosedError } from '../src/zen-errors.js'
+import { sleep, startEventMonitoring, useSimulator } from './helpers.js'
+
+describe('close', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { level: 100 },
+		},
+	}))
+
+	it('waits for requests in flight', async () => {
+		const zc = fixture.protocol({ responseTimeout: 1000, unicast: false })
+		fixture.simulator.responseDelay = 100
+		const level = zc.daliQueryLevel(new ZenAddress(fixture.controller, ZenAddressType.ECG, 0))
+		await sleep(10)
+
+		const start = Date.now()
+		await zc.close({ drainTimeout: 2000 })
+		expect(Date.now() - start).toBeLessThan(1000)
+		expect(await level).toBe(100)
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenClosedError)
+	})
+
+	it('rejects requests still in flight after the drain timeout', async () => {
+		const zc = fixture.protocol({ responseTimeout: 1000, unicast: false })
+		fixture.simulator.responseDelay = 500
+		const level = zc.daliQueryLevel(new ZenAddress(fixture.controller, ZenAddressType.ECG, 0))
+		level.catch(() => {})
+		await sleep(10)
+
+		await zc.close({ drainTimeout: 50 })
+		await expect(level).rejects.toBeInstanceOf(ZenClosedError)
+	})
+
+	it('restores the event emit mode from before event monitoring started', async () => {
+		const zc = fixture.protocol()
+		const checker = fixture.protocol({ unicast: false })
+		expect((await checker.queryTpiEventEmitState(fixture.controller))?.enabled).toBe(false)
+
+		await startEventMonitoring(zc, fixture.controller)
+		await zc.close()
+		const mode = await checker.queryTpiEventEmitState(fixture.controller)
+		expect(mode?.enabled).toBe(false)
+		expect(mode?.unicast).toBe(false)
+	})
+
+	it('closes cleanly when resetting the unicast address of an unreachable controller fails', async () => {
+		const warn = vi.fn()
+		const zc = fixture.protocol({ logger: { debug() {}, info() {}, warn } })
+		await startEventMonitoring(zc, fixture.controller)
+
+		fixture.simulator.online = false
+		await zc.close({ drainTimeout: 0 })
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Failed to reset unicast address'))
+	})
+})
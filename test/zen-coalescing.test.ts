@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenCommand } from '../src/zen-commands.js'
+import { ZenAbortError } from '../src/zen-errors.js'
+import { ZenProtocol } from '../src/zen-protocol.js'
+import { useSimulator } from './helpers.js'
+
+describe('command coalescing', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { level: 0 },
+		},
+	}))
+
+	function ecg0(): ZenAddress {
+		return new ZenAddress(fixture.controller, ZenAddressType.ECG, 0)
+	}
+
+	/** Record the commands and their levels sent by a protocol */
+	function sent(zc: ZenProtocol): string[] {
+		const result: string[] = []
+		const sendPacket = zc.sendPacket.bind(zc)
+		vi.spyOn(zc, 'sendPacket').mockImplementation((controller, command: ZenCommand, data, options) => {
+			result.push(command === 'DALI_ARC_LEVEL' ? `${command} ${data[3]}` : command)
+			return sendPacket(controller, command, data, options)
+		})
+		return result
+	}
+
+	it('sends only the latest level waiting for each target', async () => {
+		const zc = fixture.protocol({ coalesce: 'latest', responseTimeout: 500 })
+		fixture.simulator.responseDelay = 30
+		const commands = sent(zc)
+		const results = await Promise.all([10, 20, 30, 40].map(level => zc.daliArcLevel(ecg0(), level)))
+		expect(results).toEqual([true, true, true, true])
+		expect(commands).toEqual(['DALI_ARC_LEVEL 10', 'DALI_ARC_LEVEL 40'])
+		expect(fixture.simulator.model.ecgs[0].level).toBe(40)
+	})
+
+	it('sends a stream of levels as a DAPC sequence', async () => {
+		const zc = fixture.protocol({ coalesce: 'dapc' })
+		const commands = sent(zc)
+		await zc.daliArcLevel(ecg0(), 10)
+		await zc.daliArcLevel(ecg0(), 20)
+		await zc.daliArcLevel(ecg0(), 30)
+		expect(commands).toEqual(['DALI_ARC_LEVEL 10', 'DALI_ENABLE_DAPC_SEQ', 'DALI_ARC_LEVEL 20', 'DALI_ARC_LEVEL 30'])
+	})
+
+	it('rejects only a replaced caller that aborts', async () => {
+		const zc = fixture.protocol({ coalesce: 'latest', responseTimeout: 500 })
+		fixture.simulator.responseDelay = 30
+		const commands = sent(zc)
+		const controller = new AbortController()
+		const first = zc.daliArcLevel(ecg0(), 10)
+		const replaced = zc.daliArcLevel(ecg0(), 20, { signal: controller.signal })
+		const latest = zc.daliArcLevel(ecg0(), 30)
+		controller.abort()
+		await expect(replaced).rejects.toBeInstanceOf(ZenAbortError)
+		expect(await first).toBe(true)
+		expect(await latest).toBe(true)
+		expect(commands).toEqual(['DALI_ARC_LEVEL 10', 'DALI_ARC_LEVEL 30'])
+	})
+
+	it('still sends the latest command for other callers when its own caller aborts', async () => {
+		const zc = fixture.protocol({ coalesce: 'latest', responseTimeout: 500 })
+		fixture.simulator.responseDelay = 30
+		const commands = sent(zc)
+		const controller = new AbortController()
+		const first = zc.daliArcLevel(ecg0(), 10)
+		const replaced = zc.daliArcLevel(ecg0(), 20)
+		const latest = zc.daliArcLevel(ecg0(), 30, { signal: controller.signal })
+		controller.abort()
+		await expect(latest).rejects.toBeInstanceOf(ZenAbortError)
+		expect(await first).toBe(true)
+		expect(await replaced).toBe(true)
+		expect(commands).toEqual(['DALI_ARC_LEVEL 10', 'DALI_ARC_LEVEL 30'])
+	})
+
+	it('cancels a command once every caller waiting for it has aborted', async () => {
+		const zc = fixture.protocol({ coalesce: 'latest', responseTimeout: 500 })
+		fixture.simulator.responseDelay = 30
+		const commands = sent(zc)
+		const controllers = [new AbortController(), new AbortController()]
+		const first = zc.daliArcLevel(ecg0(), 10)
+		const waiting = [20, 30].map((level, i) => zc.daliArcLevel(ecg0(), level, { signal: controllers[i].signal }))
+		controllers.forEach(controller => controller.abort())
+		for (const result of waiting) {
+			await expect(result).rejects.toBeInstanceOf(ZenAbortError)
+		}
+		expect(await first).toBe(true)
+		expect(commands).toEqual(['DALI_ARC_LEVEL 10'])
+
+		// A command being sent is cancelled too
+		const controller = new AbortController()
+		const level = zc.daliArcLevel(ecg0(), 40, { signal: controller.signal })
+		setTimeout(() => controller.abort(), 10)
+		await expect(level).rejects.toBeInstanceOf(ZenAbortError)
+	})
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { decodeEventFrame, decodeRequestFrame, decodeResponseFrame, encodeEventFrame, encodeRequestFrame, encodeResponseFrame, ZenRequestFrame } from '../src/zen-codec.js'
+import { ZenColour, ZenColourType } from '../src/zen-colour.js'
+import { CMD } from '../src/zen-commands.js'
+import { ZenFrameError, ZenFrameErrorReason } from '../src/zen-errors.js'
+import { ZenEventType } from '../src/zen-events.js'
+import { useSimulator } from './helpers.js'
+
+function reason(decode: () => unknown): ZenFrameErrorReason | undefined {
+	try {
+		decode()
+	} catch (error) {
+		expect(error).toBeInstanceOf(ZenFrameError)
+		return (error as ZenFrameError).reason
+	}
+	return undefined
+}
+
+/** Replace the last byte of a packet with a correct checksum for the rest */
+function rechecksum(packet: Buffer): Buffer {
+	let sum = 0
+	for (const byte of packet.subarray(0, packet.length - 1)) {
+		sum ^= byte
+	}
+	packet[packet.length - 1] = sum
+	return packet
+}
+
+const event = { macAddress: '5a:43:00:00:a0:01', target: 0x0145, eventCode: ZenEventType.LEVEL_CHANGE_EVENT, payload: Buffer.of(100) }
+
+describe('codec', () => {
+	it.each<ZenRequestFrame>([
+		{ type: 'basic', seq: 1, command: CMD.DALI_ARC_LEVEL, address: 3, data: [0, 0, 200] },
+		{ type: 'dynamic', seq: 2, command: CMD.SET_TPI_EVENT_UNICAST_ADDRESS, data: Buffer.of(0x17, 0x70, 10, 0, 0, 1) },
+		{ type: 'colour', seq: 255, command: CMD.DALI_COLOUR, address: 3, level: 255, colour: new ZenColour({ type: ZenColourType.TC, kelvin: 4000 }) },
+	])('round trips a $type request', (frame) => {
+		expect(decodeRequestFrame(encodeRequestFrame(frame))).toEqual(frame)
+	})
+
+	it('round trips responses and events', () => {
+		const response = { responseCode: 0xa1, seq: 7, data: Buffer.from('label') }
+		expect(decodeResponseFrame(encodeResponseFrame(response))).toEqual(response)
+		expect(decodeEventFrame(encodeEventFrame(event))).toEqual(event)
+	})
+
+	it('rejects invalid frames with a reason', () => {
+		const request = encodeRequestFrame({ type: 'basic', seq: 1, command: CMD.DALI_ARC_LEVEL, address: 3, data: [0, 0, 200] })
+		expect(reason(() => decodeRequestFrame(request.subarray(0, 3)))).toBe('too-short')
+		expect(reason(() => decodeRequestFrame(rechecksum(Buffer.from([0x00, ...request.subarray(1)]))))).toBe('invalid-magic')
+		expect(reason(() => decodeRequestFrame(Buffer.from([...request.subarray(0, -1), request[request.length - 1] ^ 1])))).toBe('invalid-checksum')
+		expect(reason(() => decodeRequestFrame(rechecksum(Buffer.from([...request.subarray(0, -1), 0, 0]))))).toBe('length-mismatch')
+
+		const response = encodeResponseFrame({ responseCode: 0xa1, seq: 7, data: Buffer.from('label') })
+		expect(reason(() => decodeResponseFrame(rechecksum(Buffer.from([...response.subarray(0, -1), 0, 0]))))).toBe('length-mismatch')
+
+		expect(reason(() => encodeRequestFrame({ type: 'basic', seq: 256, command: 0, address: 0, data: [0, 0, 0] }))).toBe('invalid-field')
+		expect(reason(() => encodeEventFrame({ ...event, macAddress: 'not a mac' }))).toBe('invalid-field')
+	})
+
+	it('decodes an event with a mismatched payload length when asked to', () => {
+		const packet = encodeEventFrame(event)
+		packet[11] = 2
+		rechecksum(packet)
+		expect(reason(() => decodeEventFrame(packet))).toBe('length-mismatch')
+
+		const mismatches: ZenFrameErrorReason[] = []
+		expect(decodeEventFrame(packet, { onLengthMismatch: error => mismatches.push(error.reason) })).toEqual(event)
+		expect(mismatches).toEqual(['length-mismatch'])
+	})
+})
+
+describe('event packets', () => {
+	const fixture = useSimulator()
+
+	it('delivers an event with a mismatched payload length, as before', () => {
+		const warnings: string[] = []
+		const zc = fixture.protocol({ logger: { debug() {}, info() {}, warn: message => warnings.push(message) } })
+		const levels: number[] = []
+		zc.on('levelChange', event => levels.push(event.arcLevel))
+
+		const packet = encodeEventFrame({ ...event, macAddress: fixture.simulator.macAddress, target: 3 })
+		packet[11] = 2
+		zc.injectEventPacket(rechecksum(packet), { address: '127.0.0.1', port: 5108 })
+		expect(levels).toEqual([100])
+		expect(warnings).toEqual([expect.stringContaining('Invalid payload length')])
+	})
+})
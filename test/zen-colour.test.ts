@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenColour, ZenColourCapabilities, ZenColourType, adaptColour } from '../src/zen-colour.js'
+import { ZenColourUnsupportedError } from '../src/zen-errors.js'
+import { useSimulator } from './helpers.js'
+
+describe('colour queries', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: {
+				colour: new ZenColour({ type: ZenColourType.TC, kelvin: 3000 }),
+				colourFeatures: { supportsXy: false, supportsTunable: true, primaryCount: 0, rgbwafChannels: 0 },
+				colourTempLimits: { physicalWarmest: 2700, physicalCoolest: 6500, softWarmest: 3000, softCoolest: 6000, step: 100 },
+			},
+			1: {
+				colour: new ZenColour({ type: ZenColourType.RGBWAF, r: 200, g: 128, b: 0, w: 0, a: 0, f: 0 }),
+				colourFeatures: { supportsXy: true, supportsTunable: false, primaryCount: 3, rgbwafChannels: 4 },
+			},
+			2: {},
+		},
+	}))
+
+	function ecg(target: number): ZenAddress {
+		return new ZenAddress(fixture.controller, ZenAddressType.ECG, target)
+	}
+
+	it('queries the current colour', async () => {
+		const zc = fixture.protocol()
+		const tc = await zc.queryDaliColour(ecg(0))
+		expect(tc?.type).toBe(ZenColourType.TC)
+		expect(tc?.kelvin).toBe(3000)
+
+		const rgb = await zc.queryDaliColour(ecg(1))
+		expect(rgb?.type).toBe(ZenColourType.RGBWAF)
+		expect([rgb?.r, rgb?.g, rgb?.b]).toEqual([200, 128, 0])
+
+		expect(await zc.queryDaliColour(ecg(2))).toBeNull()
+	})
+
+	it('decodes colour features', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.queryDaliColourFeatures(ecg(0))).toEqual({ supportsXy: false, supportsTunable: true, primaryCount: 0, rgbwafChannels: 0 })
+		expect(await zc.queryDaliColourFeatures(ecg(1))).toEqual({ supportsXy: true, supportsTunable: false, primaryCount: 3, rgbwafChannels: 4 })
+		expect(await zc.queryDaliColourFeatures(ecg(2))).toEqual({ supportsXy: false, supportsTunable: false, primaryCount: 0, rgbwafChannels: 0 })
+	})
+
+	it('queries colour temperature limits', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.queryDaliColourTempLimits(ecg(0))).toEqual({ physicalWarmest: 2700, physicalCoolest: 6500, softWarmest: 3000, softCoolest: 6000, step: 100 })
+		expect(await zc.queryDaliColourTempLimits(ecg(1))).toBeNull()
+	})
+})
+
+describe('adaptColour', () => {
+	const tunable: ZenColourCapabilities = {
+		features: { supportsXy: false, supportsTunable: true, primaryCount: 0, rgbwafChannels: 0 },
+		tempLimits: { physicalWarmest: 2700, physicalCoolest: 6500, softWarmest: 3000, softCoolest: 6000, step: 100 },
+	}
+	const rgb: ZenColourCapabilities = {
+		features: { supportsXy: false, supportsTunable: false, primaryCount: 3, rgbwafChannels: 3 },
+		tempLimits: null,
+	}
+	const dimmable: ZenColourCapabilities = {
+		features: { supportsXy: false, supportsTunable: false, primaryCount: 0, rgbwafChannels: 0 },
+		tempLimits: null,
+	}
+
+	it('clamps colour temperatures to the soft limits and rounds to the step', () => {
+		expect(adaptColour(new ZenColour({ type: ZenColourType.TC, kelvin: 2000 }), tunable).kelvin).toBe(3000)
+		expect(adaptColour(new ZenColour({ type: ZenColourType.TC, kelvin: 9000 }), tunable).kelvin).toBe(6000)
+		expect(adaptColour(new ZenColour({ type: ZenColourType.TC, kelvin: 4040 }), tunable).kelvin).toBe(4000)
+	})
+
+	it('uses the physical limits when soft limits aren\'t configured', () => {
+		const capabilities = { ...tunable, tempLimits: { ...tunable.tempLimits!, softWarmest: 0, softCoolest: 0 } }
+		expect(adaptColour(new ZenColour({ type: ZenColourType.TC, kelvin: 2000 }), capabilities).kelvin).toBe(2700)
+	})
+
+	it('converts a colour temperature to RGB for a target that isn\'t tunable', () => {
+		const colour = adaptColour(new ZenColour({ type: ZenColourType.TC, kelvin: 2700 }), rgb)
+		expect(colour.type).toBe(ZenColourType.RGBWAF)
+		expect(colour.r).toBeGreaterThan(colour.b!)
+	})
+
+	it('converts near-white RGB to a colour temperature, but not saturated colours', () => {
+		const white = adaptColour(new ZenColour({ type: ZenColourType.RGBWAF, r: 0, g: 0, b: 0, w: 200, a: 0, f: 0 }), tunable)
+		expect(white.type).toBe(ZenColourType.TC)
+		expect(() => adaptColour(new ZenColour({ type: ZenColourType.RGBWAF, r: 200, g: 0, b: 0, w: 0, a: 0, f: 0 }), tunable)).toThrow(ZenColourUnsupportedError)
+	})
+
+	it('rejects colours for a target without colour support', () => {
+		expect(() => adaptColour(new ZenColour({ type: ZenColourType.TC, kelvin: 3000 }), dimmable)).toThrow(ZenColourUnsupportedError)
+	})
+})
+
+describe('queryColourCapabilities', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: {
+				groups: [1],
+				colourFeatures: { supportsXy: false, supportsTunable: true, primaryCount: 0, rgbwafChannels: 0 },
+				colourTempLimits: { physicalWarmest: 2700, physicalCoolest: 6500, softWarmest: 0, softCoolest: 0, step: 50 },
+			},
+			1: {
+				groups: [1],
+				colourFeatures: { supportsXy: false, supportsTunable: true, primaryCount: 0, rgbwafChannels: 0 },
+				colourTempLimits: { physicalWarmest: 2200, physicalCoolest: 5000, softWarmest: 3000, softCoolest: 0, step: 100 },
+			},
+			2: {
+				groups: [1],
+				colourFeatures: { supportsXy: false, supportsTunable: false, primaryCount: 3, rgbwafChannels: 3 },
+			},
+		},
+	}))
+
+	it('supports the features of any member of a group, within the temperature limits of all members', async () => {
+		const zc = fixture.protocol()
+		const capabilities = await zc.queryColourCapabilities(new ZenAddress(fixture.controller, ZenAddressType.GROUP, 1))
+		expect(capabilities.features).toEqual({ supportsXy: false, supportsTunable: true, primaryCount: 3, rgbwafChannels: 3 })
+		expect(capabilities.tempLimits).toEqual({ physicalWarmest: 2700, physicalCoolest: 5000, softWarmest: 3000, softCoolest: 5000, step: 100 })
+	})
+
+	it('adapts colours sent with adapt', async () => {
+		const zc = fixture.protocol()
+		const address = new ZenAddress(fixture.controller, ZenAddressType.ECG, 1)
+		expect(await zc.daliColour(address, new ZenColour({ type: ZenColourType.TC, kelvin: 6500 }), 255, { adapt: true })).toBe(true)
+		expect(fixture.simulator.model.ecgs[1].colour?.kelvin).toBe(5000)
+	})
+})
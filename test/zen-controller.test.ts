@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { ZenTimeoutError } from '../src/zen-errors.js'
+import { sleep, useSimulator } from './helpers.js'
+
+describe('controller readiness', () => {
+	const fixture = useSimulator(() => ({
+		label: 'Level 1',
+		fittingNumber: '1',
+		version: [2, 1, 45],
+		startupComplete: false,
+		daliReady: false,
+	}))
+
+	it('queries the controller info', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.queryControllerInfo(fixture.controller)).toEqual({
+			version: '2.1.45',
+			label: 'Level 1',
+			fittingNumber: '1',
+			daliReady: false,
+			startupComplete: false,
+		})
+	})
+
+	it('waits until startup is complete and the DALI bus is ready', async () => {
+		const zc = fixture.protocol()
+		let ready = false
+		const wait = zc.waitUntilReady(fixture.controller, { interval: 20, timeout: 2000 }).then(() => {
+			ready = true
+		})
+
+		await sleep(50)
+		fixture.simulator.model.startupComplete = true
+		await sleep(50)
+		expect(ready).toBe(false)
+		fixture.simulator.model.daliReady = true
+		await wait
+		expect(ready).toBe(true)
+	})
+
+	it('keeps polling while the controller does not respond', async () => {
+		const zc = fixture.protocol()
+		fixture.simulator.model.startupComplete = true
+		fixture.simulator.model.daliReady = true
+		fixture.simulator.online = false
+		setTimeout(() => {
+			fixture.simulator.online = true
+		}, 150)
+		await zc.waitUntilReady(fixture.controller, { interval: 20, timeout: 2000 })
+	})
+
+	it('times out if the controller does not become ready', async () => {
+		const zc = fixture.protocol()
+		fixture.simulator.model.startupComplete = true
+		await expect(zc.waitUntilReady(fixture.controller, { interval: 20, timeout: 100 })).rejects.toThrow(ZenTimeoutError)
+		await expect(zc.waitUntilReady(fixture.controller, { interval: 20, timeout: 100 })).rejects.toThrow('DALI bus is not ready')
+	})
+})
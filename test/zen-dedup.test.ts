@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { encodeEventFrame } from '../src/zen-codec.js'
+import { ZenEventType } from '../src/zen-events.js'
+import { sleep, useSimulator } from './helpers.js'
+
+describe('event deduplication', () => {
+	const fixture = useSimulator()
+	const rinfo = { address: '127.0.0.1', port: 5108 }
+
+	function levelChangePacket(target: number, level: number): Buffer {
+		return encodeEventFrame({ macAddress: fixture.simulator.macAddress, target, eventCode: ZenEventType.LEVEL_CHANGE_EVENT, payload: Buffer.of(level) })
+	}
+
+	it('ignores an event that repeats the previous event for the same target', () => {
+		const zc = fixture.protocol()
+		const levels: number[] = []
+		zc.on('levelChange', event => levels.push(event.arcLevel))
+
+		zc.injectEventPacket(levelChangePacket(0, 100), rinfo)
+		zc.injectEventPacket(levelChangePacket(0, 100), rinfo)
+		zc.injectEventPacket(levelChangePacket(1, 100), rinfo)
+		expect(levels).toEqual([100, 100])
+	})
+
+	it('delivers a level that returns to an earlier level within the window', () => {
+		const zc = fixture.protocol()
+		const levels: number[] = []
+		zc.on('levelChange', event => levels.push(event.arcLevel))
+
+		zc.injectEventPacket(levelChangePacket(0, 100), rinfo)
+		zc.injectEventPacket(levelChangePacket(0, 50), rinfo)
+		zc.injectEventPacket(levelChangePacket(0, 100), rinfo)
+		expect(levels).toEqual([100, 50, 100])
+	})
+
+	it('delivers a repeated event after the window', async () => {
+		const zc = fixture.protocol({ eventDeduplicationWindows: { [ZenEventType.LEVEL_CHANGE_EVENT]: 20 } })
+		const levels: number[] = []
+		zc.on('levelChange', event => levels.push(event.arcLevel))
+
+		zc.injectEventPacket(levelChangePacket(0, 100), rinfo)
+		await sleep(50)
+		zc.injectEventPacket(levelChangePacket(0, 100), rinfo)
+		expect(levels).toEqual([100, 100])
+	})
+
+	it('times injected events by when they were received', () => {
+		const zc = fixture.protocol()
+		const received: Date[] = []
+		zc.on('levelChange', event => received.push(event.receivedAt))
+
+		// As when playing back a recording as fast as possible
+		const start = Date.now() - 180000
+		const times = [start, start + 60000, start + 60000 + 100, start + 120000].map(time => new Date(time))
+		for (const time of times) {
+			zc.injectEventPacket(levelChangePacket(0, 100), rinfo, time)
+		}
+		expect(received).toEqual([times[0], times[1], times[3]])
+	})
+})
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenController } from '../src/zen-controller.js'
+import { ZenEventOverflowError } from '../src/zen-errors.js'
+import { ZenEventOverflowPolicy, ZenEventStream } from '../src/zen-event-stream.js'
+import { ZenLevelChangeEvent } from '../src/zen-events.js'
+import { startEventMonitoring, useSimulator } from './helpers.js'
+
+const controller = new ZenController({ host: '127.0.0.1', id: 1 })
+
+function levelChange(arcLevel: number): ZenLevelChangeEvent {
+	const address = new ZenAddress(controller, ZenAddressType.ECG, 0)
+	return { type: 'levelChange', controller, target: 0, receivedAt: new Date(), address, arcLevel }
+}
+
+function stream(overflow: ZenEventOverflowPolicy): ZenEventStream {
+	const result = new ZenEventStream({ bufferSize: 2, overflow }, () => {})
+	result.push(levelChange(1))
+	result.push(levelChange(2))
+	result.push(levelChange(3))
+	return result
+}
+
+async function levels(stream: ZenEventStream, count: number): Promise<number[]> {
+	const result: number[] = []
+	for (let i = 0; i < count; i++) {
+		const { value } = await stream.next()
+		result.push((value as ZenLevelChangeEvent).arcLevel)
+	}
+	return result
+}
+
+describe('ZenEventStream', () => {
+	it('drops the oldest buffered event when full by default', async () => {
+		expect(await levels(stream('drop-oldest'), 2)).toEqual([2, 3])
+	})
+
+	it('drops the newest event when full with drop-newest', async () => {
+		expect(await levels(stream('drop-newest'), 2)).toEqual([1, 2])
+	})
+
+	it('delivers buffered events then fails when full with error', async () => {
+		const events = stream('error')
+		expect(events.closed).toBe(true)
+		expect(await levels(events, 2)).toEqual([1, 2])
+		await expect(events.next()).rejects.toBeInstanceOf(ZenEventOverflowError)
+		expect(await events.next()).toEqual({ value: undefined, done: true })
+	})
+
+	it('delivers an event straight to a waiting consumer without buffering it', async () => {
+		const events = new ZenEventStream({ bufferSize: 1, overflow: 'error' }, () => {})
+		const next = events.next()
+		events.push(levelChange(1))
+		events.push(levelChange(2))
+		expect(await levels(events, 1)).toEqual([2])
+		expect(((await next).value as ZenLevelChangeEvent).arcLevel).toBe(1)
+		expect(events.closed).toBe(false)
+	})
+})
+
+describe('events', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { level: 0 },
+			1: { level: 0 },
+		},
+	}))
+
+	it('streams the events matching its filters', async () => {
+		const zc = fixture.protocol()
+		await startEventMonitoring(zc, fixture.controller)
+		const ecg1 = new ZenAddress(fixture.controller, ZenAddressType.ECG, 1)
+		const events = zc.events({ types: ['levelChange'], addresses: [ecg1] })
+
+		await zc.daliArcLevel(new ZenAddress(fixture.controller, ZenAddressType.ECG, 0), 100)
+		await zc.daliArcLevel(ecg1, 200)
+		for await (const event of events) {
+			expect(event).toMatchObject({ type: 'levelChange', target: 1, arcLevel: 200 })
+			break
+		}
+		expect(events.closed).toBe(true)
+	})
+
+	it('ends the stream when its signal is aborted', async () => {
+		const zc = fixture.protocol()
+		const controller = new AbortController()
+		const events = zc.events({ signal: controller.signal })
+		const next = events.next()
+		controller.abort()
+		expect(await next).toEqual({ value: undefined, done: true })
+	})
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenController } from '../src/zen-controller.js'
+import { ZenEventFilter, ZenEventMask, planEventFilterChanges } from '../src/zen-events.js'
+import { useSimulator } from './helpers.js'
+
+const controller = new ZenController({ host: '127.0.0.1', id: 1 })
+const ecg = new ZenAddress(controller, ZenAddressType.ECG, 3)
+const ecd = new ZenAddress(controller, ZenAddressType.ECD, 5)
+
+function filter(address: ZenAddress, instance: number | null, mask: number): ZenEventFilter {
+	return { address, instance, eventMask: ZenEventMask.fromDoubleByte(mask) }
+}
+
+describe('planEventFilterChanges', () => {
+	it('makes no changes when the filters already match', () => {
+		const filters = [filter(ecg, null, 0b1000), filter(ecd, 2, 0b11)]
+		expect(planEventFilterChanges(filters, filters)).toEqual([])
+	})
+
+	it('adds only the events that aren\'t already muted', () => {
+		const changes = planEventFilterChanges([filter(ecg, null, 0b1000)], [filter(ecg, null, 0b11000)])
+		expect(changes).toHaveLength(1)
+		expect(changes[0].operation).toBe('add')
+		expect(changes[0].filter.address).toBe(ecg)
+		expect(changes[0].filter.eventMask.bitmask()).toBe(0b10000)
+	})
+
+	it('clears events that are no longer wanted before adding new ones', () => {
+		const changes = planEventFilterChanges([filter(ecg, null, 0b1000)], [filter(ecd, 2, 0b1)])
+		expect(changes.map(change => change.operation)).toEqual(['clear', 'add'])
+		expect(changes[0].filter.address).toBe(ecg)
+		expect(changes[0].filter.eventMask.bitmask()).toBe(0b1000)
+		expect(changes[1].filter.address).toBe(ecd)
+		expect(changes[1].filter.instance).toBe(2)
+		expect(changes[1].filter.eventMask.bitmask()).toBe(0b1)
+	})
+
+	it('treats filters for different instances on the same address separately', () => {
+		const changes = planEventFilterChanges([filter(ecd, 1, 0b1)], [filter(ecd, 1, 0b1), filter(ecd, 2, 0b1)])
+		expect(changes).toHaveLength(1)
+		expect(changes[0].operation).toBe('add')
+		expect(changes[0].filter.instance).toBe(2)
+	})
+
+	it('combines filters for the same address and instance', () => {
+		const changes = planEventFilterChanges([filter(ecg, null, 0b1), filter(ecg, null, 0b10)], [filter(ecg, null, 0b11)])
+		expect(changes).toEqual([])
+	})
+})
+
+describe('setTpiEventFilters', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: Object.fromEntries([...Array(20).keys()].map(ecg => [ecg, {}])),
+	}))
+
+	function summary(filters: ZenEventFilter[]): string[] {
+		return filters.map(filter => `${filter.address.ecgOrEcdOrBroadcast()}.${filter.instance ?? 0xff}.${filter.eventMask.bitmask()}`).sort()
+	}
+
+	it('only sends the changes needed to reach the desired filters', async () => {
+		const zc = fixture.protocol()
+		const desk = new ZenAddress(fixture.controller, ZenAddressType.ECG, 3)
+		const button = new ZenAddress(fixture.controller, ZenAddressType.ECD, 5)
+
+		const first = await zc.setTpiEventFilters([filter(desk, null, 0b1000), filter(button, 2, 0b1)])
+		expect(first.map(change => change.operation)).toEqual(['add', 'add'])
+		expect(summary(await zc.queryTpiEventFilters(ZenAddress.broadcast(fixture.controller)))).toEqual(['3.255.8', '69.2.1'])
+
+		const second = await zc.setTpiEventFilters([filter(desk, null, 0b1000)])
+		expect(second.map(change => change.operation)).toEqual(['clear'])
+		expect(summary(await zc.queryTpiEventFilters(ZenAddress.broadcast(fixture.controller)))).toEqual(['3.255.8'])
+
+		expect(await zc.setTpiEventFilters([filter(desk, null, 0b1000)])).toEqual([])
+	})
+
+	it('queries more filters than fit in one response', async () => {
+		const zc = fixture.protocol()
+		const filters = [...Array(20).keys()].map(ecg => filter(new ZenAddress(fixture.controller, ZenAddressType.ECG, ecg), null, 0b1000))
+		await zc.setTpiEventFilters(filters)
+		expect(await zc.queryTpiEventFilters(ZenAddress.broadcast(fixture.controller))).toHaveLength(20)
+	})
+})
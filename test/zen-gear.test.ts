@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenControlGearStatus } from '../src/zen-gear.js'
+import { useSimulator } from './helpers.js'
+
+describe('ZenControlGearStatus', () => {
+	it('decodes each status bit', () => {
+		expect(ZenControlGearStatus.fromByte(0x00)).toEqual(new ZenControlGearStatus())
+		expect(ZenControlGearStatus.fromByte(0xff)).toEqual({
+			controlGearFailure: true,
+			lampFailure: true,
+			lampOn: true,
+			limitError: true,
+			fadeRunning: true,
+			reset: true,
+			missingShortAddress: true,
+			powerFailure: true,
+		})
+		expect(ZenControlGearStatus.fromByte(0x24)).toMatchObject({ lampOn: true, reset: true, lampFailure: false, powerFailure: false })
+	})
+
+	it('has a fault when the gear or its lamp has failed', () => {
+		expect(ZenControlGearStatus.fromByte(0x01).hasFault()).toBe(true)
+		expect(ZenControlGearStatus.fromByte(0x02).hasFault()).toBe(true)
+		expect(ZenControlGearStatus.fromByte(0xfc).hasFault()).toBe(false)
+	})
+})
+
+describe('control gear status', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { level: 254 },
+			1: { level: 0, status: 0x02 },
+		},
+	}))
+
+	function ecg(target: number): ZenAddress {
+		return new ZenAddress(fixture.controller, ZenAddressType.ECG, target)
+	}
+
+	it('queries the status of a control gear', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.queryControlGearStatus(ecg(0))).toMatchObject({ lampOn: true, lampFailure: false })
+		expect(await zc.queryControlGearStatus(ecg(1))).toMatchObject({ lampOn: false, lampFailure: true })
+	})
+
+	it('reports faults and recoveries when polling gear health', async () => {
+		const zc = fixture.protocol()
+		const faults: number[] = []
+		const recoveries: number[] = []
+		zc.gearFaultCallback = (address) => faults.push(address.target)
+		zc.gearRecoveredCallback = (address) => recoveries.push(address.target)
+
+		await zc.pollGearHealth()
+		expect(faults).toEqual([1])
+		expect(recoveries).toEqual([])
+
+		// An unchanged fault is only reported once
+		await zc.pollGearHealth()
+		expect(faults).toEqual([1])
+
+		fixture.simulator.model.ecgs[1].status = 0
+		fixture.simulator.model.ecgs[0].status = 0x01
+		await zc.pollGearHealth()
+		expect(faults).toEqual([1, 0])
+		expect(recoveries).toEqual([1])
+	})
+})
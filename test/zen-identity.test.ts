@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenControlGearType } from '../src/zen-gear.js'
+import { ZenInstanceType } from '../src/zen-instance.js'
+import { useSimulator } from './helpers.js'
+
+describe('device identity', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { label: 'Desk', serial: '0011223344556677', ean: 9312345678907, fittingNumber: '1.0', cgTypes: [ZenControlGearType.DALI_HW_LED] },
+			3: { serial: null },
+		},
+		ecds: {
+			2: { label: 'Switch', serial: 'a1b2c3d4e5f60718', instances: [{ instance: 0, type: ZenInstanceType.PUSH_BUTTON }] },
+		},
+	}))
+
+	it('queries the identity of a control gear', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.queryDeviceIdentity(new ZenAddress(fixture.controller, ZenAddressType.ECG, 0))).toMatchObject({
+			label: 'Desk',
+			serial: '0011223344556677',
+			gtin: 9312345678907,
+			fittingNumber: '1.0',
+			cgTypes: [ZenControlGearType.DALI_HW_LED],
+		})
+	})
+
+	it('reports a null serial for a device that does not answer, and keeps going', async () => {
+		const zc = fixture.protocol()
+		const identities = await zc.queryDeviceIdentities(fixture.controller)
+		expect(identities.map(identity => [identity.address.type, identity.address.target, identity.serial])).toEqual([
+			[ZenAddressType.ECG, 0, '0011223344556677'],
+			[ZenAddressType.ECG, 3, null],
+			[ZenAddressType.ECD, 2, 'a1b2c3d4e5f60718'],
+		])
+		expect(identities[2].cgTypes).toEqual([])
+	})
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenInstanceType } from '../src/zen-instance.js'
+import { ZenSimulatorDevice } from '../src/zen-simulator.js'
+import { useSimulator } from './helpers.js'
+
+describe('instance discovery', () => {
+	const fixture = useSimulator(() => {
+		const ecds: Record<number, ZenSimulatorDevice> = {}
+		for (let ecd = 0; ecd < 64; ecd++) {
+			ecds[ecd] = { instances: ecd === 5 ? [] : [{ instance: 0, type: ZenInstanceType.PUSH_BUTTON }] }
+		}
+		ecds[1] = {
+			instances: [
+				{ instance: 0, type: ZenInstanceType.PUSH_BUTTON, label: 'Up', fittingNumber: '1.65.0' },
+				{ instance: 3, type: ZenInstanceType.OCCUPANCY_SENSOR, active: false, error: true },
+			],
+		}
+		return { ecds }
+	})
+
+	it('pages through addresses with instances', async () => {
+		const zc = fixture.protocol()
+		const addresses = await zc.queryDaliAddressesWithInstances(fixture.controller)
+		expect(addresses).toHaveLength(63)
+		expect(addresses.every(address => address.type === ZenAddressType.ECD)).toBe(true)
+		expect(addresses.map(address => address.target)).toEqual([...Array(64).keys()].filter(ecd => ecd !== 5))
+	})
+
+	it('queries the instances on an address with their flags, labels and fitting numbers', async () => {
+		const zc = fixture.protocol()
+		const instances = await zc.queryInstancesByAddress(new ZenAddress(fixture.controller, ZenAddressType.ECD, 1))
+		expect(instances.map(instance => ({
+			instance: instance.instance,
+			type: instance.type,
+			active: instance.active,
+			error: instance.error,
+			label: instance.label,
+			fittingNumber: instance.fittingNumber,
+		}))).toEqual([
+			{ instance: 0, type: ZenInstanceType.PUSH_BUTTON, active: true, error: false, label: 'Up', fittingNumber: '1.65.0' },
+			{ instance: 3, type: ZenInstanceType.OCCUPANCY_SENSOR, active: false, error: true, label: null, fittingNumber: null },
+		])
+	})
+
+	it('returns no instances for an address without any', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.queryInstancesByAddress(new ZenAddress(fixture.controller, ZenAddressType.ECD, 5))).toEqual([])
+	})
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { useSimulator } from './helpers.js'
+
+describe('step and fade commands', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { level: 0, minLevel: 10 },
+			1: { level: 100, lastActiveLevel: 100 },
+		},
+	}))
+
+	function ecg(target: number): ZenAddress {
+		return new ZenAddress(fixture.controller, ZenAddressType.ECG, target)
+	}
+
+	it('steps up from off to the minimum level, and down and off again', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.daliOnStepUp(ecg(0))).toBe(true)
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(10)
+		expect(await zc.daliOnStepUp(ecg(0))).toBe(true)
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(11)
+		await zc.daliStepDownOff(ecg(0))
+		await zc.daliStepDownOff(ecg(0))
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(0)
+	})
+
+	it('does not turn gear on or off with up and down', async () => {
+		const zc = fixture.protocol()
+		await zc.daliUp(ecg(0))
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(0)
+		await zc.daliDown(ecg(1))
+		expect(await zc.daliQueryLevel(ecg(1))).toBe(99)
+		await zc.daliUp(ecg(1))
+		expect(await zc.daliQueryLevel(ecg(1))).toBe(100)
+	})
+
+	it('goes back to the last active level after turning off', async () => {
+		const zc = fixture.protocol()
+		await zc.daliArcLevel(ecg(1), 0)
+		expect(await zc.daliQueryLevel(ecg(1))).toBe(0)
+		expect(await zc.daliGoToLastActiveLevel(ecg(1))).toBe(true)
+		expect(await zc.daliQueryLevel(ecg(1))).toBe(100)
+	})
+
+	it('sends a custom fade with the fade time in big endian seconds', async () => {
+		const zc = fixture.protocol()
+		const sendPacket = vi.spyOn(zc, 'sendPacket')
+		expect(await zc.daliCustomFade(ecg(1), 200, 300)).toBe(true)
+		expect(sendPacket).toHaveBeenCalledWith(fixture.controller, 'DALI_CUSTOM_FADE', [1, 200, 0x01, 0x2c], {})
+		expect(await zc.daliQueryLevel(ecg(1))).toBe(200)
+		expect(await zc.daliStopFade(ecg(1))).toBe(true)
+	})
+
+	it('rejects an invalid custom fade without sending it', async () => {
+		const zc = fixture.protocol()
+		const sendPacket = vi.spyOn(zc, 'sendPacket')
+		await expect(zc.daliCustomFade(ecg(1), 255, 1)).rejects.toThrow('Level must be between')
+		await expect(zc.daliCustomFade(ecg(1), 100, 1.5)).rejects.toThrow('Fade time must be')
+		await expect(zc.daliCustomFade(ecg(1), 100, 0x10000)).rejects.toThrow('Fade time must be')
+		expect(sendPacket).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ZenProfilePriority } from '../src/zen-profile.js'
+import { startEventMonitoring, useSimulator } from './helpers.js'
+
+describe('profiles', () => {
+	const fixture = useSimulator(() => ({
+		currentProfile: 1,
+		scheduledProfile: 1,
+		lastScheduledProfileTime: 1700000000,
+		profiles: {
+			1: { label: 'Day', priority: ZenProfilePriority.SCHEDULED },
+			2: { label: 'Night', enabled: false, priority: ZenProfilePriority.HIGH },
+			300: { label: null, priority: ZenProfilePriority.EMERGENCY },
+		},
+	}))
+
+	it('parses profile information', async () => {
+		const zc = fixture.protocol()
+		const info = await zc.queryProfileInformation(fixture.controller)
+		expect(info?.currentProfile).toBe(1)
+		expect(info?.lastScheduledProfile).toBe(1)
+		expect(info?.lastScheduledTime).toEqual(new Date(1700000000 * 1000))
+		expect(info?.lastOverriddenTime).toBeNull()
+		expect(info?.profiles.map(profile => [profile.profile, profile.enabled, profile.priority])).toEqual([
+			[1, true, ZenProfilePriority.SCHEDULED],
+			[2, false, ZenProfilePriority.HIGH],
+			[300, true, ZenProfilePriority.EMERGENCY],
+		])
+	})
+
+	it('queries profiles with their labels', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.queryProfileNumbers(fixture.controller)).toEqual([1, 2, 300])
+		const profiles = await zc.queryProfiles(fixture.controller)
+		expect(profiles?.map(profile => profile.label)).toEqual(['Day', 'Night', null])
+		expect(await zc.queryProfileLabel(fixture.controller, 300, true)).toBe('Profile 300')
+	})
+
+	it('changes profile and returns to the schedule', async () => {
+		const zc = fixture.protocol()
+		const changes: number[] = []
+		zc.on('profileChange', event => changes.push(event.profile))
+		await startEventMonitoring(zc, fixture.controller)
+
+		expect(await zc.changeProfileNumber(fixture.controller, 2)).toBe(true)
+		expect(await zc.queryCurrentProfileNumber(fixture.controller)).toBe(2)
+		expect(await zc.returnToScheduledProfile(fixture.controller)).toBe(true)
+		expect(await zc.queryCurrentProfileNumber(fixture.controller)).toBe(1)
+		await vi.waitFor(() => {
+			expect(changes).toEqual([2, 1])
+		})
+	})
+
+	it('rejects profile numbers out of range', async () => {
+		const zc = fixture.protocol()
+		await expect(zc.changeProfileNumber(fixture.controller, 0x10000)).rejects.toThrow('Profile number must be between 0 and 65535')
+	})
+})
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ZenControllerState } from '../src/zen-controller.js'
+import { startEventMonitoring, useSimulator } from './helpers.js'
+
+describe('controller reachability', () => {
+	const fixture = useSimulator()
+
+	it('moves through degraded to offline as requests fail, and back online when one succeeds', async () => {
+		const zc = fixture.protocol()
+		const changes: [ZenControllerState, ZenControllerState][] = []
+		zc.controllerStateChangeCallback = (controller, state, previousState) => changes.push([previousState, state])
+		expect(zc.controllerState(fixture.controller)).toBe('unknown')
+
+		await zc.pollReachability()
+		expect(zc.controllerState(fixture.controller)).toBe('online')
+
+		fixture.simulator.online = false
+		for (let i = 0; i < 3; i++) {
+			await zc.pollReachability()
+		}
+		expect(zc.controllerState(fixture.controller)).toBe('offline')
+
+		fixture.simulator.online = true
+		await zc.pollReachability()
+		expect(changes).toEqual([
+			['unknown', 'online'],
+			['online', 'degraded'],
+			['degraded', 'offline'],
+			['offline', 'online'],
+		])
+	})
+
+	it('only polls controllers that have been idle', async () => {
+		const zc = fixture.protocol()
+		await zc.pollReachability()
+		fixture.simulator.online = false
+		await zc.pollReachability(60000)
+		expect(zc.controllerState(fixture.controller)).toBe('online')
+		await zc.pollReachability()
+		expect(zc.controllerState(fixture.controller)).toBe('degraded')
+	})
+
+	it('marks a controller online when an event arrives from it', async () => {
+		const zc = fixture.protocol()
+		await startEventMonitoring(zc, fixture.controller)
+		fixture.simulator.online = false
+		await zc.pollReachability()
+		expect(zc.controllerState(fixture.controller)).toBe('degraded')
+
+		fixture.simulator.setSystemVariable(1, 5)
+		await vi.waitFor(() => {
+			expect(zc.controllerState(fixture.controller)).toBe('online')
+		})
+	})
+})
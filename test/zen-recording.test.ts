@@ -0,0 +1,64 @@
+import { PassThrough } from 'node:stream'
+import { describe, expect, it, vi } from 'vitest'
+import { encodeEventFrame } from '../src/zen-codec.js'
+import { ZenController } from '../src/zen-controller.js'
+import { ZenControllerUnavailableError, ZenTimeoutError } from '../src/zen-errors.js'
+import { ZenEvent, ZenEventType } from '../src/zen-events.js'
+import { ZenPlayer, ZenRecorder, ZenRecordingFormat, parseZenRecording } from '../src/zen-recording.js'
+import { startEventMonitoring, useSimulator } from './helpers.js'
+
+/** A summary of an event that can be compared between protocols */
+function describeEvent(event: ZenEvent): string {
+	return `${event.type} ${event.target}`
+}
+
+describe('ZenRecorder and ZenPlayer', () => {
+	const fixture = useSimulator()
+
+	it.each<ZenRecordingFormat>(['ndjson', 'binary'])('plays back the events recorded in %s', async (format) => {
+		const stream = new PassThrough()
+		const chunks: Buffer[] = []
+		stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+
+		const recorder = new ZenRecorder({ stream, format, commands: true })
+		const zc = fixture.protocol({ recorder })
+		const recorded: string[] = []
+		zc.on('buttonPress', event => recorded.push(describeEvent(event)))
+		zc.on('systemVariableChange', event => recorded.push(describeEvent(event)))
+
+		await startEventMonitoring(zc, fixture.controller)
+		fixture.simulator.pressButton(1, 0)
+		fixture.simulator.setSystemVariable(2, 10)
+		fixture.simulator.pressButton(1, 0)
+		await vi.waitFor(() => {
+			expect(recorded).toHaveLength(3)
+		})
+		await zc.close()
+		await recorder.close()
+
+		const records = parseZenRecording(Buffer.concat(chunks))
+		expect(records.filter(record => record.kind === 'event')).toHaveLength(3)
+		expect(records.some(record => record.kind === 'request')).toBe(true)
+		expect(records.some(record => record.kind === 'response')).toBe(true)
+
+		const offline = fixture.protocol({ controllers: [new ZenController({ host: '127.0.0.1', id: 0, macAddress: fixture.simulator.macAddress })] })
+		const played: string[] = []
+		offline.on('buttonPress', event => played.push(describeEvent(event)))
+		offline.on('systemVariableChange', event => played.push(describeEvent(event)))
+		await new ZenPlayer(records).play(offline, { speed: Infinity })
+		expect(played).toEqual(recorded)
+	})
+
+	it('does not change reachability or close the circuit breaker for injected events', async () => {
+		const zc = fixture.protocol({ circuitBreaker: { failureThreshold: 2, probeInterval: 60000 } })
+		fixture.simulator.online = false
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+		const state = zc.controllerState(fixture.controller)
+
+		const packet = encodeEventFrame({ macAddress: fixture.simulator.macAddress, target: 0, eventCode: ZenEventType.LEVEL_CHANGE_EVENT, payload: Buffer.of(100) })
+		zc.injectEventPacket(packet, { address: '127.0.0.1', port: 5108 })
+		expect(zc.controllerState(fixture.controller)).toBe(state)
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenControllerUnavailableError)
+	})
+})
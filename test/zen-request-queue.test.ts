@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { CMD } from '../src/zen-commands.js'
+import { ZenRequestQueue } from '../src/zen-request-queue.js'
+import { ZenTransport, ZenUdpTransport } from '../src/zen-transport.js'
+import { sleep, useSimulator } from './helpers.js'
+
+describe('ZenRequestQueue', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	function request(name: string, woken: string[]) {
+		return () => {
+			woken.push(name)
+		}
+	}
+
+	it('wakes higher priorities first, in order of arrival', () => {
+		const queue = new ZenRequestQueue(5000)
+		const woken: string[] = []
+		queue.push(request('background', woken), 'background')
+		queue.push(request('normal 1', woken), 'normal')
+		queue.push(request('interactive', woken), 'interactive')
+		queue.push(request('normal 2', woken), 'normal')
+
+		let wake: (() => void) | undefined
+		while ((wake = queue.shift())) {
+			wake()
+		}
+		expect(woken).toEqual(['interactive', 'normal 1', 'normal 2', 'background'])
+	})
+
+	it('wakes a starved request ahead of higher priorities', () => {
+		const queue = new ZenRequestQueue(5000)
+		const woken: string[] = []
+		queue.push(request('background', woken), 'background')
+		vi.advanceTimersByTime(1000)
+		queue.push(request('normal', woken), 'normal')
+		vi.advanceTimersByTime(4000)
+		queue.push(request('interactive', woken), 'interactive')
+
+		queue.shift()?.()
+		queue.shift()?.()
+		queue.shift()?.()
+		expect(woken).toEqual(['background', 'interactive', 'normal'])
+	})
+
+	it('wakes the longest starved request first', () => {
+		const queue = new ZenRequestQueue(5000)
+		const woken: string[] = []
+		queue.push(request('normal', woken), 'normal')
+		vi.advanceTimersByTime(1000)
+		queue.push(request('background', woken), 'background')
+		vi.advanceTimersByTime(5000)
+		queue.push(request('interactive', woken), 'interactive')
+
+		queue.shift()?.()
+		queue.shift()?.()
+		queue.shift()?.()
+		expect(woken).toEqual(['normal', 'background', 'interactive'])
+	})
+
+	it('removes a waiting request without waking it', () => {
+		const queue = new ZenRequestQueue(5000)
+		const woken: string[] = []
+		const wake = request('normal', woken)
+		queue.push(wake, 'normal')
+
+		expect(queue.remove(wake)).toBe(true)
+		expect(queue.remove(wake)).toBe(false)
+		expect(queue.shift()).toBeUndefined()
+		expect(woken).toEqual([])
+	})
+})
+
+describe('request priorities', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { level: 0 },
+			1: { level: 0 },
+			2: { level: 0 },
+		},
+	}))
+
+	/** A UDP transport that records the command of each request in the order they're sent */
+	function recordingTransport(commands: number[]): ZenTransport {
+		const udp = new ZenUdpTransport()
+		return {
+			openCommandChannel(handlers) {
+				const channel = udp.openCommandChannel(handlers)
+				return {
+					send: (packet, host, port) => {
+						commands.push(packet[2])
+						return channel.send(packet, host, port)
+					},
+					close: () => channel.close(),
+				}
+			},
+			openEventChannel: (options, handlers) => udp.openEventChannel(options, handlers),
+		}
+	}
+
+	it('sends control commands ahead of discovery on a busy controller', async () => {
+		const commands: number[] = []
+		const zc = fixture.protocol({ maxRequestsPerController: 1, responseTimeout: 500, transport: recordingTransport(commands) })
+		fixture.simulator.responseDelay = 20
+		const identities = [0, 1, 2].map(target => zc.queryDeviceIdentity(new ZenAddress(fixture.controller, ZenAddressType.ECG, target)))
+
+		await sleep(10)
+		expect(await zc.daliArcLevel(new ZenAddress(fixture.controller, ZenAddressType.ECG, 1), 100)).toBe(true)
+		expect(commands.indexOf(CMD.DALI_ARC_LEVEL)).toBe(1)
+		await Promise.all(identities)
+	})
+})
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { encodeEventFrame } from '../src/zen-codec.js'
+import { ZenController } from '../src/zen-controller.js'
+import { ZenEventType } from '../src/zen-events.js'
+import { ZenResponseCache } from '../src/zen-response-cache.js'
+import { useSimulator } from './helpers.js'
+
+const controller = new ZenController({ host: '127.0.0.1', id: 1 })
+const ANSWER = 0xA1
+
+describe('ZenResponseCache', () => {
+	it('returns a copy of the cached data to each caller', () => {
+		const cache = new ZenResponseCache(['QUERY_DALI_DEVICE_LABEL'], 60)
+		const data = Buffer.from('Desk')
+		cache.set(controller, 'QUERY_DALI_DEVICE_LABEL', [0], { responseCode: ANSWER, data })
+		data.write('Door')
+
+		const first = cache.get(controller, 'QUERY_DALI_DEVICE_LABEL', [0])
+		first?.data.write('Hall')
+		expect(cache.get(controller, 'QUERY_DALI_DEVICE_LABEL', [0])?.data.toString()).toBe('Desk')
+	})
+
+	it('clears responses affected by a change on an ECG', () => {
+		const cache = new ZenResponseCache(['DALI_QUERY_LEVEL'], 60)
+		for (const address of [0, 1, 64 + 2, 255]) {
+			cache.set(controller, 'DALI_QUERY_LEVEL', [address], { responseCode: ANSWER, data: Buffer.of(100) })
+		}
+
+		cache.clearAffected(new ZenAddress(controller, ZenAddressType.ECG, 0), ['DALI_QUERY_LEVEL'])
+		expect(cache.get(controller, 'DALI_QUERY_LEVEL', [0])).toBeUndefined()
+		expect(cache.get(controller, 'DALI_QUERY_LEVEL', [1])).toBeDefined()
+		expect(cache.get(controller, 'DALI_QUERY_LEVEL', [64 + 2])).toBeUndefined()
+		expect(cache.get(controller, 'DALI_QUERY_LEVEL', [255])).toBeUndefined()
+	})
+
+	it('clears responses affected by a change on a group', () => {
+		const cache = new ZenResponseCache(['DALI_QUERY_LEVEL', 'QUERY_DALI_DEVICE_LABEL'], 60)
+		for (const address of [0, 64 + 2, 64 + 3, 255]) {
+			cache.set(controller, 'DALI_QUERY_LEVEL', [address], { responseCode: ANSWER, data: Buffer.of(100) })
+		}
+		cache.set(controller, 'QUERY_DALI_DEVICE_LABEL', [0], { responseCode: ANSWER, data: Buffer.from('Desk') })
+
+		cache.clearAffected(new ZenAddress(controller, ZenAddressType.GROUP, 2), ['DALI_QUERY_LEVEL'])
+		expect(cache.get(controller, 'DALI_QUERY_LEVEL', [0])).toBeUndefined()
+		expect(cache.get(controller, 'DALI_QUERY_LEVEL', [64 + 2])).toBeUndefined()
+		expect(cache.get(controller, 'DALI_QUERY_LEVEL', [64 + 3])).toBeDefined()
+		expect(cache.get(controller, 'DALI_QUERY_LEVEL', [255])).toBeUndefined()
+		expect(cache.get(controller, 'QUERY_DALI_DEVICE_LABEL', [0])).toBeDefined()
+	})
+})
+
+describe('response cache', () => {
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { level: 100, groups: [1] },
+			1: { level: 100 },
+		},
+	}))
+
+	function ecg(target: number): ZenAddress {
+		return new ZenAddress(fixture.controller, ZenAddressType.ECG, target)
+	}
+
+	it('is off by default', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(100)
+		fixture.simulator.model.ecgs[0].level = 50
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(50)
+	})
+
+	it('clears cached responses for the address of an event and the groups that may include it', async () => {
+		const zc = fixture.protocol({ cache: { commands: ['DALI_QUERY_LEVEL'] } })
+		const group1 = new ZenAddress(fixture.controller, ZenAddressType.GROUP, 1)
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(100)
+		expect(await zc.daliQueryLevel(ecg(1))).toBe(100)
+		expect(await zc.daliQueryLevel(group1)).toBe(100)
+
+		fixture.simulator.model.ecgs[0].level = 50
+		fixture.simulator.model.ecgs[1].level = 50
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(100)
+
+		const packet = encodeEventFrame({ macAddress: fixture.simulator.macAddress, target: 0, eventCode: ZenEventType.LEVEL_CHANGE_EVENT, payload: Buffer.of(50) })
+		zc.injectEventPacket(packet, { address: '127.0.0.1', port: 5108 })
+		expect(await zc.daliQueryLevel(ecg(0))).toBe(50)
+		expect(await zc.daliQueryLevel(group1)).toBe(50)
+		expect(await zc.daliQueryLevel(ecg(1))).toBe(100)
+
+		zc.clearResponseCache(fixture.controller)
+		expect(await zc.daliQueryLevel(ecg(1))).toBe(50)
+	})
+})
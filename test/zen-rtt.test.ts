@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ZenRttEstimator, retryBackoff } from '../src/zen-rtt.js'
+import { useSimulator } from './helpers.js'
+
+describe('ZenRttEstimator', () => {
+	it('uses the initial timeout until a round trip is measured', () => {
+		const estimator = new ZenRttEstimator(1000, 500, 5000)
+		expect(estimator.timeout()).toBe(1000)
+		expect(estimator.estimate()).toBeNull()
+	})
+
+	it('derives the timeout from SRTT + 4·RTTVAR', () => {
+		const estimator = new ZenRttEstimator(1000, 10, 5000)
+		estimator.sample(100)
+		expect(estimator.estimate()).toEqual({ srtt: 100, rttvar: 50, timeout: 300, samples: 1 })
+
+		estimator.sample(200)
+		const estimate = estimator.estimate()
+		expect(estimate?.srtt).toBe(112.5)
+		expect(estimate?.rttvar).toBe(62.5)
+		expect(estimate?.timeout).toBe(363)
+	})
+
+	it('keeps the timeout within bounds', () => {
+		const estimator = new ZenRttEstimator(1000, 500, 5000)
+		estimator.sample(10)
+		expect(estimator.timeout()).toBe(500)
+
+		estimator.sample(20000)
+		expect(estimator.timeout()).toBe(5000)
+	})
+
+	it('doubles the timeout on backoff until the next sample', () => {
+		const estimator = new ZenRttEstimator(1000, 500, 5000)
+		estimator.sample(10)
+		estimator.backoff()
+		expect(estimator.timeout()).toBe(1000)
+		estimator.backoff()
+		expect(estimator.timeout()).toBe(2000)
+		estimator.backoff()
+		estimator.backoff()
+		expect(estimator.timeout()).toBe(5000)
+
+		estimator.sample(10)
+		expect(estimator.timeout()).toBe(500)
+	})
+})
+
+describe('retryBackoff', () => {
+	it('doubles with each retry up to the maximum, half of it random', () => {
+		const random = vi.spyOn(Math, 'random')
+		try {
+			random.mockReturnValue(0)
+			expect(retryBackoff(1, 100, 2000)).toBe(50)
+			expect(retryBackoff(2, 100, 2000)).toBe(100)
+			expect(retryBackoff(3, 100, 2000)).toBe(200)
+			expect(retryBackoff(10, 100, 2000)).toBe(1000)
+
+			random.mockReturnValue(1)
+			expect(retryBackoff(1, 100, 2000)).toBe(100)
+			expect(retryBackoff(10, 100, 2000)).toBe(2000)
+		} finally {
+			random.mockRestore()
+		}
+	})
+})
+
+describe('adaptive timeouts', () => {
+	const fixture = useSimulator(() => ({ label: 'Simulator' }))
+
+	it('never waits less than the response timeout', async () => {
+		const zc = fixture.protocol({ adaptiveTimeouts: true, responseTimeout: 600 })
+		for (let i = 0; i < 5; i++) {
+			await zc.queryControllerLabel(fixture.controller)
+		}
+		expect(zc.rttEstimate(fixture.controller)?.timeout).toBe(600)
+
+		fixture.simulator.responseDelay = 550
+		expect(await zc.queryControllerLabel(fixture.controller)).toBe('Simulator')
+	})
+
+	it('waits longer than the response timeout for a slow controller', async () => {
+		const zc = fixture.protocol({ adaptiveTimeouts: true, responseTimeout: 100, maxRetries: 3 })
+		fixture.simulator.responseDelay = 80
+		for (let i = 0; i < 3; i++) {
+			await zc.queryControllerLabel(fixture.controller)
+		}
+		expect(zc.rttEstimate(fixture.controller)?.timeout).toBeGreaterThan(100)
+	})
+})
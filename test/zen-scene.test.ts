@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenColour, ZenColourType } from '../src/zen-colour.js'
+import { useSimulator } from './helpers.js'
+
+function sceneLevels(levels: Record<number, number>): (number | null)[] {
+	return [...Array(12).keys()].map(scene => levels[scene] ?? null)
+}
+
+describe('scenes', () => {
+	const warm = new ZenColour({ type: ZenColourType.TC, kelvin: 2700 })
+	const fixture = useSimulator(() => ({
+		ecgs: {
+			0: { groups: [1], sceneLevels: sceneLevels({ 0: 254, 2: 100 }), sceneColours: [null, null, warm] },
+			1: { groups: [1, 2], sceneLevels: sceneLevels({ 0: 200 }) },
+			2: { groups: [2], sceneLevels: sceneLevels({ 5: 50 }) },
+		},
+		groups: {
+			1: { label: 'Office', scenes: { 0: 'Bright', 2: 'Evening' } },
+			2: { label: 'Hall', scenes: { 5: null } },
+		},
+	}))
+
+	function ecg(target: number): ZenAddress {
+		return new ZenAddress(fixture.controller, ZenAddressType.ECG, target)
+	}
+
+	it('queries the scene table of an address', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.querySceneNumbersByAddress(ecg(0))).toEqual([0, 2])
+		expect(await zc.querySceneLevelsByAddress(ecg(0))).toEqual(sceneLevels({ 0: 254, 2: 100 }))
+		expect(await zc.queryColourSceneMembershipByAddress(ecg(0))).toEqual([2])
+
+		const scenes = await zc.queryScenesByAddress(ecg(0))
+		expect(scenes).toHaveLength(12)
+		expect(scenes[0]).toEqual({ scene: 0, level: 254, colour: null })
+		expect(scenes[1]).toEqual({ scene: 1, level: null, colour: null })
+		expect(scenes[2].level).toBe(100)
+		expect(scenes[2].colour?.kelvin).toBe(2700)
+	})
+
+	it('builds a scene matrix for each group', async () => {
+		const zc = fixture.protocol()
+		const matrices = await zc.queryGroupSceneMatrices(fixture.controller, true)
+		expect(matrices.map(matrix => matrix.group.target)).toEqual([1, 2])
+
+		const [office, hall] = matrices
+		expect(office.scenes.map(scene => [scene.scene, scene.label])).toEqual([[0, 'Bright'], [2, 'Evening']])
+		expect(office.fixtures.map(fixture => fixture.address.target)).toEqual([0, 1])
+		expect(office.fixtures.map(fixture => fixture.scenes.map(scene => scene.level))).toEqual([[254, 100], [200, null]])
+
+		expect(hall.scenes.map(scene => scene.scene)).toEqual([5])
+		expect(hall.scenes[0].label).toBe('Scene 5')
+		expect(hall.fixtures.map(fixture => [fixture.address.target, fixture.scenes[0].level])).toEqual([[1, null], [2, 50]])
+	})
+})
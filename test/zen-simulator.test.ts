@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ZenAddress, ZenAddressType } from '../src/zen-address.js'
+import { ZenTimeoutError } from '../src/zen-errors.js'
+import { startEventMonitoring, useSimulator } from './helpers.js'
+
+describe('ZenSimulator', () => {
+	const fixture = useSimulator(() => ({
+		label: 'Simulator',
+		version: [2, 1, 45],
+		ecgs: {
+			0: { level: 0, groups: [1] },
+			1: { level: 0, groups: [1] },
+		},
+	}))
+
+	it('answers queries from its model', async () => {
+		const zc = fixture.protocol()
+		expect(await zc.queryControllerLabel(fixture.controller)).toBe('Simulator')
+		expect(await zc.queryControllerVersionNumber(fixture.controller)).toBe('2.1.45')
+
+		fixture.simulator.model.label = 'Renamed'
+		expect(await zc.queryControllerLabel(fixture.controller)).toBe('Renamed')
+	})
+
+	it('applies commands to its model and emits events', async () => {
+		const zc = fixture.protocol()
+		const groupLevels: number[] = []
+		zc.on('groupLevelChange', event => groupLevels.push(event.arcLevel))
+		await startEventMonitoring(zc, fixture.controller)
+
+		expect(await zc.daliArcLevel(new ZenAddress(fixture.controller, ZenAddressType.GROUP, 1), 200)).toBe(true)
+		expect(fixture.simulator.model.ecgs[0].level).toBe(200)
+		expect(fixture.simulator.model.ecgs[1].level).toBe(200)
+		await vi.waitFor(() => {
+			expect(groupLevels).toEqual([200])
+		})
+	})
+
+	it('ignores requests while offline', async () => {
+		const zc = fixture.protocol()
+		fixture.simulator.online = false
+		await expect(zc.queryControllerLabel(fixture.controller)).rejects.toBeInstanceOf(ZenTimeoutError)
+	})
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { ZenAddressType } from '../src/zen-address.js'
+import { decodeRequestFrame, encodeEventFrame, encodeResponseFrame, ZenRequestFrame } from '../src/zen-codec.js'
+import { CMD } from '../src/zen-commands.js'
+import { ZenController } from '../src/zen-controller.js'
+import { ZenEventType } from '../src/zen-events.js'
+import { ZenProtocol, ZenResponseCode } from '../src/zen-protocol.js'
+import { ZenCommandChannel, ZenEventChannel, ZenEventChannelOptions, ZenTransport, ZenTransportHandlers } from '../src/zen-transport.js'
+import { logger } from './helpers.js'
+
+const macAddress = '5a:43:00:00:a0:01'
+
+/** A transport that answers label queries itself, and delivers events given to `emit` */
+class MemoryTransport implements ZenTransport {
+	requests: ZenRequestFrame[] = []
+	eventOptions?: ZenEventChannelOptions
+	private eventHandlers?: ZenTransportHandlers
+
+	openCommandChannel(handlers: ZenTransportHandlers): ZenCommandChannel {
+		return {
+			send: async (packet, host, port) => {
+				const request = decodeRequestFrame(packet)
+				this.requests.push(request)
+				const response = request.command === CMD.QUERY_CONTROLLER_LABEL
+					? { responseCode: ZenResponseCode.ANSWER, seq: request.seq, data: Buffer.from(`${host}:${port}`) }
+					: { responseCode: ZenResponseCode.OK, seq: request.seq, data: Buffer.alloc(0) }
+				setImmediate(() => handlers.message(encodeResponseFrame(response), { address: host, port }))
+			},
+			close: async () => handlers.close(),
+		}
+	}
+
+	async openEventChannel(options: ZenEventChannelOptions, handlers: ZenTransportHandlers): Promise<ZenEventChannel> {
+		this.eventOptions = options
+		this.eventHandlers = handlers
+		return {
+			port: () => 6000,
+			close: async () => {
+				this.eventHandlers = undefined
+				handlers.close()
+			},
+		}
+	}
+
+	emit(packet: Buffer): void {
+		this.eventHandlers?.message(packet, { address: '10.0.0.2', port: 5108 })
+	}
+}
+
+describe('custom transport', () => {
+	it('sends commands and receives events through the transport', async () => {
+		const transport = new MemoryTransport()
+		const controller = new ZenController({ host: '10.0.0.2', id: 1, macAddress })
+		const zc = new ZenProtocol({ controllers: [controller], logger, transport, unicast: true, listenIp: '10.0.0.1', listenPort: 6000 })
+		try {
+			expect(await zc.queryControllerLabel(controller)).toBe(`10.0.0.2:${controller.port}`)
+			expect(transport.requests[0]).toMatchObject({ type: 'basic', command: CMD.QUERY_CONTROLLER_LABEL })
+
+			await zc.startEventMonitoring()
+			expect(transport.eventOptions).toEqual({ unicast: true, listenIp: '10.0.0.1', listenPort: 6000 })
+
+			const levels: number[] = []
+			zc.on('levelChange', event => {
+				expect(event.address.type).toBe(ZenAddressType.ECG)
+				levels.push(event.arcLevel)
+			})
+			transport.emit(encodeEventFrame({ macAddress, target: 3, eventCode: ZenEventType.LEVEL_CHANGE_EVENT, payload: Buffer.of(100) }))
+			expect(levels).toEqual([100])
+		} finally {
+			await zc.close({ drainTimeout: 0 })
+		}
+	})
+})